@@ -9,18 +9,79 @@
  * - Runner-native execution (no Vercel function dependency)
  * - Deterministic sharding via SHARD_INDEX/SHARD_TOTAL
  * - Strict dual-write can be enforced via COLLECTOR_STRICT_DUAL_WRITE=true
+ * - Per-park time budgets and a shard deadline (COLLECTOR_PARK_TIMEOUT_MS,
+ *   COLLECTOR_SHARD_DEADLINE_MS); cut-off parks are reported as timedOutParks
+ * - Failed writes are captured in a local outbox and replayed on the next run
+ * - Run lifecycle is logged to Supabase cron_logs (job collect-queue-times)
+ * - Parks closed per their ThemeParks.wiki schedule are not polled for queues;
+ *   wait-time rows carry park_open from the same schedule
+ * - Queues are only polled inside each park's active window in park-local
+ *   time (COLLECTOR_ACTIVE_WINDOW); rows carry local_date/local_hour
+ * - Hourly weather forecasts ride along on the Open-Meteo request once per
+ *   COLLECTOR_FORECAST_INTERVAL_MINUTES and go to park_weather_forecast
+ * - Locations within COLLECTOR_WEATHER_SHARE_RADIUS_KM share one weather
+ *   fetch per tick; rows record the source location
+ * - COLLECTOR_SOURCES picks the wait-time mode: queue_times (default),
+ *   themeparks, or dual, which blends both feeds per ride with learned
+ *   source weights and stores per-source waits and a confidence score
+ * - COLLECTOR_LOCAL_MODE=true runs offline against a libSQL file and a
+ *   reference-data fixture (no Supabase, no Turso credentials)
  */
 
 import * as fs from 'node:fs'
 import * as dotenv from 'dotenv'
 import {
-  supabase,
+  getTursoClient,
+  isLocalMode,
   writeWaitTimesToTurso,
   writeWeatherToTurso,
+  writeParkScheduleToTurso,
+  writeWeatherForecastToTurso,
   writeWaitTimesToSupabase,
   writeWeatherToSupabase,
   isDualWriteEnabled,
 } from './lib/database-clients'
+import {
+  collectAggregatedQueues,
+  collectParkSchedule,
+  collectQueues,
+  QueueCollection,
+  withReverseRideMappings,
+} from './lib/collection'
+import { GeoWeatherCache } from './lib/geo-weather-cache'
+import { mapWithConcurrency, runWithDeadline } from './lib/concurrency'
+import { cronLogDetails, insertCronLog } from './lib/cron-logs'
+import { getHttpStats } from './lib/http'
+import {
+  isValidTimeZone,
+  isWithinActiveWindow,
+  loadParkTimezones,
+  localTimeParts,
+  parseActiveWindow,
+  ParkTimezone,
+  saveParkTimezones,
+} from './lib/local-time'
+import { getWeatherType } from './lib/open-meteo'
+import { drainOutbox, enqueueOutbox, quarantineRecords, OutboxKind, OutboxStore } from './lib/outbox'
+import {
+  parseProviderList,
+  resolveWaitTimeProviders,
+  resolveWeatherProvider,
+} from './lib/providers'
+import { checkReferenceConsistency, loadReferenceData } from './lib/reference-data'
+import { loadSourceWeights, SourceWeightTable } from './lib/source-weights'
+import { runTursoMigrations } from './lib/turso-migrations'
+import { isForecastDue, toForecastRecords } from './lib/weather-forecast'
+import {
+  ParkScheduleRecord,
+  WaitTimeRecord,
+  WeatherForecastRecord,
+  WeatherRecord,
+  pickWeatherMeasurements,
+  validateWaitTimeRecords,
+  validateWeatherForecastRecords,
+  validateWeatherRecords,
+} from './lib/records'
 
 dotenv.config()
 
@@ -29,12 +90,18 @@ const DATABASE_KEY = process.env.DB_AUTH
 const TURSO_URL = process.env.TURSO_DATABASE_URL || process.env.TURSO_DB_URL
 const TURSO_TOKEN = process.env.TURSO_AUTH_TOKEN || process.env.TURSO_TOKEN
 
-type Location = {
-  id: string
-  name: string
-  external_id: number | null
-  lat: number | null
-  lon: number | null
+// Job name the SLO monitor reads coverage from
+const CRON_JOB_NAME = 'collect-queue-times'
+const collectorStartedAtMs = Date.now()
+
+const COLLECTOR_SOURCES = ['queue_times', 'themeparks', 'dual'] as const
+type CollectorSources = (typeof COLLECTOR_SOURCES)[number]
+
+// Provider order per mode; in dual mode the first is primary and the second its aggregation partner
+const DEFAULT_WAIT_PROVIDERS: Record<CollectorSources, string[]> = {
+  queue_times: ['queue_times'],
+  themeparks: ['themeparks'],
+  dual: ['queue_times', 'themeparks'],
 }
 
 type CollectorSummary = {
@@ -68,6 +135,15 @@ function envBool(name: string, fallback: boolean): boolean {
   return fallback
 }
 
+function parseCollectorSources(raw?: string): CollectorSources {
+  const value = (raw || '').trim().toLowerCase()
+  if (!value) return 'queue_times'
+  if (!(COLLECTOR_SOURCES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown COLLECTOR_SOURCES "${raw}" (expected ${COLLECTOR_SOURCES.join(', ')})`)
+  }
+  return value as CollectorSources
+}
+
 function normalizeTickBucket(raw?: string): string {
   const parsed = raw ? Date.parse(raw) : Date.now()
   const base = Number.isFinite(parsed) ? parsed : Date.now()
@@ -84,83 +160,6 @@ function hashToShard(value: string, shardTotal: number): number {
   return (hash >>> 0) % shardTotal
 }
 
-function getWeatherType(code: number): string {
-  const types: Record<number, string> = {
-    0: 'clear',
-    1: 'mostly_clear',
-    2: 'partly_cloudy',
-    3: 'overcast',
-    45: 'foggy',
-    48: 'rime_fog',
-    51: 'light_drizzle',
-    53: 'drizzle',
-    55: 'heavy_drizzle',
-    61: 'light_rain',
-    63: 'rain',
-    65: 'heavy_rain',
-    71: 'light_snow',
-    73: 'snow',
-    75: 'heavy_snow',
-    77: 'snow_grains',
-    80: 'light_showers',
-    81: 'showers',
-    82: 'heavy_showers',
-    85: 'light_snow_showers',
-    86: 'snow_showers',
-    95: 'thunderstorm',
-    96: 'thunderstorm_hail',
-    99: 'severe_thunderstorm',
-  }
-  return types[code] || 'unknown'
-}
-
-async function collectWeather(lat: number, lon: number) {
-  try {
-    const response = await fetch(
-      `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,wind_speed_10m,wind_direction_10m,uv_index&timezone=auto&forecast_days=1`
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    return {
-      temp: data.current?.temperature_2m,
-      feels: data.current?.apparent_temperature,
-      humid: data.current?.relative_humidity_2m,
-      precip: data.current?.precipitation,
-      code: data.current?.weather_code,
-      wind_s: data.current?.wind_speed_10m,
-      wind_d: data.current?.wind_direction_10m,
-      uv: data.current?.uv_index,
-    }
-  } catch {
-    return null
-  }
-}
-
-async function collectQueues(parkId: number) {
-  try {
-    const response = await fetch(`https://queue-times.com/parks/${parkId}/queue_times.json`)
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-
-    const allItems: any[] = []
-    if (Array.isArray(data.rides)) allItems.push(...data.rides)
-
-    if (Array.isArray(data.lands)) {
-      data.lands.forEach((land: any) => {
-        if (Array.isArray(land.rides)) allItems.push(...land.rides)
-      })
-    }
-
-    return Array.from(new Map(allItems.map((item) => [item.id, item])).values())
-  } catch {
-    return null
-  }
-}
-
 function writeSummary(summary: CollectorSummary) {
   const payload = JSON.stringify(summary)
   console.log(payload)
@@ -171,151 +170,441 @@ function writeSummary(summary: CollectorSummary) {
   }
 }
 
-async function runCollection() {
-  if (!DATABASE_URL || !DATABASE_KEY || !TURSO_URL || !TURSO_TOKEN) {
+async function runCollection(): Promise<boolean> {
+  const localMode = isLocalMode()
+  if (!localMode && (!DATABASE_URL || !DATABASE_KEY || !TURSO_URL || !TURSO_TOKEN)) {
     throw new Error('Missing required configuration (DB_CONNECTION, DB_AUTH, TURSO_DATABASE_URL/TURSO_DB_URL, TURSO_AUTH_TOKEN/TURSO_TOKEN).')
   }
 
-  const startTime = Date.now()
+  const startTime = collectorStartedAtMs
   const shardIndex = envInt('SHARD_INDEX', 0, 0, 1024)
   const shardTotal = envInt('SHARD_TOTAL', 1, 1, 1024)
-  const strictDualWrite = envBool('COLLECTOR_STRICT_DUAL_WRITE', true)
+  // Local mode has no Supabase to dual-write to
+  const strictDualWrite = !localMode && envBool('COLLECTOR_STRICT_DUAL_WRITE', true)
   const tickBucket = normalizeTickBucket(process.env.TICK_BUCKET)
+  const sources = parseCollectorSources(process.env.COLLECTOR_SOURCES)
+  const waitProviders = resolveWaitTimeProviders(
+    parseProviderList(process.env.COLLECTOR_WAIT_PROVIDERS, DEFAULT_WAIT_PROVIDERS[sources])
+  )
+  if (sources === 'dual' && waitProviders.length < 2) {
+    throw new Error('COLLECTOR_SOURCES=dual needs two wait-time providers (COLLECTOR_WAIT_PROVIDERS).')
+  }
+  const weatherProvider = resolveWeatherProvider(
+    parseProviderList(process.env.COLLECTOR_WEATHER_PROVIDER, ['open_meteo'])[0]
+  )
+  const concurrency = envInt('COLLECTOR_CONCURRENCY', 4, 1, 32)
+  const cronLogsEnabled = envBool('COLLECTOR_CRON_LOGS', true)
+  const scheduleEnabled = envBool('COLLECTOR_PARK_SCHEDULE', true)
+  const skipClosedParks = envBool('COLLECTOR_SKIP_CLOSED_PARKS', true)
+  const scheduleBufferMinutes = envInt('COLLECTOR_SCHEDULE_BUFFER_MINUTES', 30, 0, 240)
+  const defaultActiveWindow = parseActiveWindow(process.env.COLLECTOR_ACTIVE_WINDOW)
+  const forecastDue = envBool('COLLECTOR_WEATHER_FORECAST', true) &&
+    isForecastDue(tickBucket, envInt('COLLECTOR_FORECAST_INTERVAL_MINUTES', 60, 5, 24 * 60))
+  const forecastHours = forecastDue ? envInt('COLLECTOR_FORECAST_HOURS', 72, 1, 168) : 0
+  const weatherCache = new GeoWeatherCache(envInt('COLLECTOR_WEATHER_SHARE_RADIUS_KM', 10, 0, 100))
+  const parkTimeoutMs = envInt('COLLECTOR_PARK_TIMEOUT_MS', 45000, 1000, 10 * 60 * 1000)
+  const shardDeadlineAt = startTime + envInt('COLLECTOR_SHARD_DEADLINE_MS', 8 * 60 * 1000, 10000, 60 * 60 * 1000)
 
   const hardErrors: string[] = []
   const softErrors: string[] = []
 
   const stats: Record<string, any> = {
+    sources,
+    waitProviders: waitProviders.map((provider) => provider.name),
     locationsTotal: 0,
     locationsTargeted: 0,
+    parksTargeted: 0,
     processed: 0,
+    timedOutParks: 0,
+    timeoutRate: 0,
+    concurrency,
     queueEligibleLocations: 0,
     weatherEligibleLocations: 0,
     weatherCollected: 0,
+    weatherFetches: 0,
+    weatherShared: 0,
+    forecastHours,
+    forecastRecords: 0,
     totalRidesCollected: 0,
+    primaryRides: 0,
+    secondaryRides: 0,
+    aggregatedRides: 0,
+    highConfidence: 0,
+    mediumConfidence: 0,
+    lowConfidence: 0,
+    sourceWeights: 0,
+    parksClosedSkipped: 0,
+    parksOutsideWindow: 0,
+    timezonesLearned: 0,
+    scheduleRecords: 0,
+    tursoScheduleInserted: 0,
+    tursoForecastInserted: 0,
     tursoWaitInserted: 0,
     tursoWeatherInserted: 0,
+    tursoFailedChunks: 0,
+    tursoDroppedColumns: [],
+    supabaseWaitColumnGroups: [],
     supabaseWaitInserted: 0,
     supabaseWeatherInserted: 0,
+    outboxReplayed: 0,
+    outboxRemaining: 0,
+    outboxEnqueued: 0,
+    httpRequests: 0,
+    httpRetries: 0,
+    httpTimeouts: 0,
+    httpFailures: 0,
     executionTimeMs: 0,
     errors: [],
   }
 
+  if (localMode) {
+    // Keep the local libSQL file on the same schema as production Turso.
+    await runTursoMigrations(getTursoClient())
+  }
+
+  if (cronLogsEnabled) {
+    await insertCronLog(
+      CRON_JOB_NAME,
+      'started',
+      { tickBucket, shardIndex, shardTotal, executionMode: 'direct', startedAt: new Date(startTime).toISOString() },
+      null,
+      startTime
+    )
+  }
+
   const dualWriteActive = isDualWriteEnabled()
   if (strictDualWrite && !dualWriteActive) {
     hardErrors.push('Strict dual-write requires SUPABASE_SERVICE_ROLE_KEY, but dual-write is disabled.')
   }
 
-  // Read reference locations from Supabase.
-  const { data: locations, error: locError } = await supabase
-    .from('locations')
-    .select('id, name, external_id, lat, lon')
-    .order('name')
+  // Replay records left behind by earlier failed writes before adding new ones.
+  if (envBool('COLLECTOR_OUTBOX_REPLAY', true)) {
+    try {
+      const replayResults = await drainOutbox()
+      stats.outboxReplayed = replayResults.reduce((sum, result) => sum + result.replayed, 0)
+      stats.outboxRemaining = replayResults.reduce((sum, result) => sum + result.remaining, 0)
+      if (stats.outboxRemaining > 0) {
+        softErrors.push(`Outbox replay left ${stats.outboxRemaining} records pending.`)
+      }
+    } catch (error: any) {
+      softErrors.push(`Outbox replay failed: ${String(error?.message ?? error)}`)
+    }
+  }
 
-  if (locError || !locations) {
-    throw new Error(`Supabase error fetching locations: ${locError?.message ?? 'unknown error'}`)
+  const captureUnwritten = (
+    store: OutboxStore,
+    kind: OutboxKind,
+    records: Array<WaitTimeRecord | WeatherRecord>,
+    failedIds: string[]
+  ) => {
+    if (failedIds.length === 0) return
+    const failed = new Set(failedIds)
+    try {
+      stats.outboxEnqueued += enqueueOutbox(
+        tickBucket,
+        store,
+        kind,
+        records.filter((record) => failed.has(String(record.id))),
+        `${store} ${kind} write failed`
+      )
+    } catch (error: any) {
+      hardErrors.push(`Outbox capture failed for ${store} ${kind}: ${String(error?.message ?? error)}`)
+    }
   }
 
-  const typedLocations = locations as unknown as Location[]
-  stats.locationsTotal = typedLocations.length
+  // Columns a Turso table lacks are left out of the write; flag the pending migration
+  const noteDroppedColumns = (table: string, columns: string[]) => {
+    if (columns.length === 0) return
+    stats.tursoDroppedColumns.push(...columns.map((column) => `${table}.${column}`))
+    softErrors.push(`Turso ${table} is missing columns ${columns.join(', ')}; run npm run migrate:turso.`)
+  }
 
-  const targetedLocations = typedLocations.filter((location) => {
+  // Read reference data (Supabase, or the local fixture in local mode).
+  const reference = await loadReferenceData()
+  const referenceReport = checkReferenceConsistency(reference)
+  stats.referenceSource = reference.source
+  stats.locationsTotal = reference.locations.length
+  stats.dualSourcedParks = referenceReport.dualSourced
+  stats.referenceIssues = referenceReport.issues.length
+  if (referenceReport.issues.length > 0) {
+    console.log(`Reference data has ${referenceReport.issues.length} consistency issues (npm run reference:check)`)
+  }
+
+  // Learned blend weights for dual mode; a missing table or rows fall back to the defaults
+  let sourceWeights = new SourceWeightTable()
+  if (sources === 'dual' && envBool('COLLECTOR_SOURCE_WEIGHTS', true)) {
+    try {
+      sourceWeights = await loadSourceWeights(getTursoClient())
+      stats.sourceWeights = sourceWeights.size
+    } catch (error: any) {
+      softErrors.push(`Source weights unavailable, using defaults: ${String(error?.message ?? error)}`)
+    }
+  }
+  // ThemeParks.wiki rides resolve to metadata through their Queue-Times mapping
+  const resolveRideId = sources === 'queue_times'
+    ? reference.resolveRideId
+    : withReverseRideMappings(reference.resolveRideId, reference.rideMappings)
+
+  const targetedLocations = reference.locations.filter((location) => {
     const shardKey = String(location.external_id ?? location.id)
     return hashToShard(shardKey, shardTotal) === shardIndex
   })
 
   stats.locationsTargeted = targetedLocations.length
+  stats.parksTargeted = targetedLocations.length
   if (targetedLocations.length === 0) {
     softErrors.push(`No locations mapped to shard ${shardIndex}/${shardTotal}.`)
   }
 
-  const { data: metadata, error: metaError } = await supabase
-    .from('metadata')
-    .select('id, external_id')
-
-  if (metaError) {
-    throw new Error(`Supabase error fetching metadata: ${metaError.message}`)
+  // Timezones learned on earlier runs; parks without one are polled until it is known
+  let knownTimezones = new Map<string, string>()
+  try {
+    knownTimezones = await loadParkTimezones(getTursoClient())
+  } catch (error: any) {
+    softErrors.push(`Park timezones unavailable: ${String(error?.message ?? error)}`)
   }
 
-  const metaMap = new Map((metadata ?? []).map((m: any) => [String(m.external_id), String(m.id)]))
-
   const timestamp = new Date().toISOString()
-  const weatherRecords: any[] = []
-  const waitTimeRecords: any[] = []
+  const collectedWeather: WeatherRecord[] = []
+  const collectedWaitTimes: WaitTimeRecord[] = []
+  const collectedSchedules: ParkScheduleRecord[] = []
+  const collectedForecasts: WeatherForecastRecord[] = []
+  const learnedTimezones: ParkTimezone[] = []
+
+  // Parks run on a bounded worker pool; per-host budgets in lib/http keep each API in check.
+  // Each park gets its own time budget, capped by the shard deadline, and only
+  // contributes records if it finishes inside that budget.
+  await mapWithConcurrency(targetedLocations, concurrency, async (location) => {
+    const budgetMs = Math.min(parkTimeoutMs, shardDeadlineAt - Date.now())
+    if (budgetMs <= 0) {
+      stats.timedOutParks += 1
+      stats.errors.push(`Location ${location.name} skipped: shard deadline reached.`)
+      console.log(`Processing ${location.name}... [DEADLINE]`)
+      return
+    }
 
-  for (const location of targetedLocations) {
-    process.stdout.write(`Processing ${location.name}...`)
+    if (location.lat != null && location.lon != null) stats.weatherEligibleLocations += 1
+    if (location.external_id != null) stats.queueEligibleLocations += 1
 
     try {
-      if (location.lat != null && location.lon != null) {
-        stats.weatherEligibleLocations += 1
-        const weatherData = await collectWeather(location.lat, location.lon)
-        if (weatherData) {
-          weatherRecords.push({
-            location_id: location.id,
-            temperature: weatherData.temp,
-            feels_like: weatherData.feels,
-            precipitation: weatherData.precip,
-            humidity: weatherData.humid,
-            wind_speed: weatherData.wind_s,
-            uv_index: weatherData.uv,
-            weather_code: weatherData.code,
-            weather_type: getWeatherType(weatherData.code || 0),
+      const knownTimezone = [location.timezone, knownTimezones.get(location.id)].find(isValidTimeZone) ?? null
+      const activeWindow = location.active_window ? parseActiveWindow(location.active_window) : defaultActiveWindow
+      // Outside the window only the queue poll is skipped; weather and schedules keep their overnight coverage
+      const outsideWindow = Boolean(
+        knownTimezone && activeWindow && !isWithinActiveWindow(activeWindow, new Date(timestamp), knownTimezone)
+      )
+
+      const result = await runWithDeadline(budgetMs, async (signal) => {
+        const parkWeather: WeatherRecord[] = []
+        const parkWaitTimes: WaitTimeRecord[] = []
+        const schedule = scheduleEnabled
+          ? await collectParkSchedule(location, timestamp, scheduleBufferMinutes, signal)
+          : { open: null, records: [], timezone: null }
+        const { lat, lon } = location
+        const sharedWeather = lat != null && lon != null
+          ? await weatherCache.getOrFetch(String(location.id), lat, lon, () =>
+              weatherProvider.getCurrentWeather(lat, lon, signal, forecastHours))
+          : null
+        const weatherData = sharedWeather?.reading ?? null
+
+        let learned: ParkTimezone | null = null
+        if (!knownTimezone) {
+          if (isValidTimeZone(schedule.timezone)) {
+            learned = { park_id: location.id, timezone: schedule.timezone, source: 'themeparks_wiki' }
+          } else if (weatherData && isValidTimeZone(weatherData.timezone)) {
+            learned = { park_id: location.id, timezone: weatherData.timezone, source: weatherProvider.name }
+          }
+        }
+        const timeZone = knownTimezone ?? learned?.timezone ?? null
+        const localTime = timeZone ? localTimeParts(timestamp, timeZone) : { local_date: null, local_hour: null }
+
+        if (sharedWeather && weatherData) {
+          parkWeather.push({
+            id: crypto.randomUUID(),
+            location_id: String(location.id),
+            ...pickWeatherMeasurements(weatherData),
+            weather_type: getWeatherType(weatherData.weather_code ?? 0),
+            ...localTime,
+            source_location_id: sharedWeather.sourceLocationId,
             recorded_at: timestamp,
-            source: 'open_meteo',
+            source: weatherProvider.name,
           })
-          stats.weatherCollected += 1
         }
-      }
+        const parkForecast = sharedWeather && weatherData?.forecast
+          ? toForecastRecords(
+              String(location.id),
+              weatherData.forecast,
+              timestamp,
+              weatherProvider.name,
+              timeZone,
+              sharedWeather.sourceLocationId
+            )
+          : []
+
+        // Outside the active window or operating hours every ride reads closed/zero; skip the queue poll
+        const skipped = outsideWindow ? 'inactive' : skipClosedParks && schedule.open === false ? 'closed' : null
+        if (skipped) {
+          return {
+            parkWeather,
+            parkForecast,
+            parkWaitTimes,
+            parkSchedule: schedule.records,
+            learned,
+            ridesCollected: 0,
+            aggregation: null,
+            skipped,
+          }
+        }
 
-      if (location.external_id != null) {
-        stats.queueEligibleLocations += 1
-        const queueItems = await collectQueues(location.external_id)
-        if (queueItems && queueItems.length > 0) {
-          stats.totalRidesCollected += queueItems.length
-          const records = queueItems
-            .map((item) => {
-              const metaId = metaMap.get(String(item.id))
-              if (!metaId) return null
-              return {
-                id: crypto.randomUUID(),
-                item_id: metaId,
-                park_id: location.id,
-                wait_time: item.wait_time || 0,
-                is_open: item.is_open !== false,
-                source: 'queue_times',
-                recorded_at: timestamp,
-              }
-            })
-            .filter(Boolean)
-
-          waitTimeRecords.push(...records)
+        const context = { park_open: schedule.open, ...localTime }
+        const aggregation = sources === 'dual'
+          ? await collectAggregatedQueues(
+              location,
+              waitProviders[0],
+              waitProviders[1],
+              reference.rideMappings,
+              resolveRideId,
+              (metaId) => sourceWeights.forRide(String(location.id), metaId),
+              timestamp,
+              signal,
+              context
+            )
+          : null
+        const queues: QueueCollection = aggregation ??
+          await collectQueues(location, waitProviders, resolveRideId, timestamp, signal, context)
+        parkWaitTimes.push(...queues.records)
+
+        return {
+          parkWeather,
+          parkForecast,
+          parkWaitTimes,
+          parkSchedule: schedule.records,
+          learned,
+          ridesCollected: queues.ridesCollected,
+          aggregation,
+          skipped: null,
         }
+      })
+
+      if (result.timedOut) {
+        stats.timedOutParks += 1
+        stats.errors.push(`Location ${location.name} timed out after ${budgetMs}ms.`)
+        console.log(`Processing ${location.name}... [TIMEOUT] ${budgetMs}ms`)
+        return
       }
 
+      collectedWeather.push(...result.value.parkWeather)
+      collectedForecasts.push(...result.value.parkForecast)
+      collectedWaitTimes.push(...result.value.parkWaitTimes)
+      collectedSchedules.push(...result.value.parkSchedule)
+      if (result.value.learned) learnedTimezones.push(result.value.learned)
+      stats.weatherCollected += result.value.parkWeather.length
+      stats.totalRidesCollected += result.value.ridesCollected
+      const aggregation = result.value.aggregation
+      if (aggregation) {
+        stats.primaryRides += aggregation.primaryRides
+        stats.secondaryRides += aggregation.secondaryRides
+        stats.aggregatedRides += aggregation.aggregated
+        stats.highConfidence += aggregation.highConfidence
+        stats.mediumConfidence += aggregation.mediumConfidence
+        stats.lowConfidence += aggregation.lowConfidence
+      }
+      if (result.value.skipped === 'closed') stats.parksClosedSkipped += 1
+      if (result.value.skipped === 'inactive') stats.parksOutsideWindow += 1
+
       stats.processed += 1
       const elapsed = Date.now() - startTime
-      console.log(` [OK] ${elapsed}ms`)
+      console.log(`Processing ${location.name}... [${result.value.skipped?.toUpperCase() ?? 'OK'}] ${elapsed}ms`)
     } catch (error: any) {
       const err = `Location ${location.name} failed: ${String(error?.message ?? error)}`
       stats.errors.push(err)
-      console.log(' [ERROR]')
+      console.log(`Processing ${location.name}... [ERROR]`)
+    }
+  })
+
+  stats.weatherFetches = weatherCache.stats.fetches
+  stats.weatherShared = weatherCache.stats.shared
+  stats.timeoutRate = targetedLocations.length > 0 ? stats.timedOutParks / targetedLocations.length : 0
+
+  // Validate at the write boundary; malformed rows are quarantined with reasons.
+  const { valid: weatherRecords, rejected: rejectedWeather } = validateWeatherRecords(collectedWeather)
+  const { valid: waitTimeRecords, rejected: rejectedWaitTimes } = validateWaitTimeRecords(collectedWaitTimes)
+  stats.rejectedWeather = rejectedWeather.length
+  stats.rejectedWaitTimes = rejectedWaitTimes.length
+  if (rejectedWeather.length > 0 || rejectedWaitTimes.length > 0) {
+    softErrors.push(`Quarantined ${rejectedWeather.length} weather and ${rejectedWaitTimes.length} wait-time records failing validation.`)
+    try {
+      quarantineRecords(tickBucket, 'weather', rejectedWeather)
+      quarantineRecords(tickBucket, 'wait_times', rejectedWaitTimes)
+    } catch (error: any) {
+      softErrors.push(`Quarantine write failed: ${String(error?.message ?? error)}`)
     }
   }
 
   if (weatherRecords.length > 0) {
     const weatherResult = await writeWeatherToTurso(weatherRecords)
     stats.tursoWeatherInserted = weatherResult.inserted
+    stats.tursoFailedChunks += weatherResult.chunks.filter((chunk) => !chunk.ok).length
+    captureUnwritten('turso', 'weather', weatherRecords, weatherResult.failedIds)
+    noteDroppedColumns('park_weather_history', weatherResult.droppedColumns)
     if (weatherResult.inserted !== weatherResult.total) {
-      hardErrors.push(`Turso weather partial write (${weatherResult.inserted}/${weatherResult.total}).`)
+      hardErrors.push(
+        `Turso weather partial write (${weatherResult.inserted}/${weatherResult.total}, ${weatherResult.failedIds.length} failed ids).`
+      )
     }
   }
 
   if (waitTimeRecords.length > 0) {
     const waitResult = await writeWaitTimesToTurso(waitTimeRecords)
     stats.tursoWaitInserted = waitResult.inserted
+    stats.tursoFailedChunks += waitResult.chunks.filter((chunk) => !chunk.ok).length
+    captureUnwritten('turso', 'wait_times', waitTimeRecords, waitResult.failedIds)
+    noteDroppedColumns('ride_wait_time_history', waitResult.droppedColumns)
     if (waitResult.inserted !== waitResult.total) {
-      hardErrors.push(`Turso wait-time partial write (${waitResult.inserted}/${waitResult.total}).`)
+      hardErrors.push(
+        `Turso wait-time partial write (${waitResult.inserted}/${waitResult.total}, ${waitResult.failedIds.length} failed ids).`
+      )
+    }
+  }
+
+  // Schedules are re-fetched every tick, so a failed write is reported but not queued
+  stats.scheduleRecords = collectedSchedules.length
+  if (collectedSchedules.length > 0) {
+    const scheduleResult = await writeParkScheduleToTurso(collectedSchedules)
+    stats.tursoScheduleInserted = scheduleResult.inserted
+    stats.tursoFailedChunks += scheduleResult.chunks.filter((chunk) => !chunk.ok).length
+    if (scheduleResult.inserted !== scheduleResult.total) {
+      softErrors.push(`Turso park schedule partial write (${scheduleResult.inserted}/${scheduleResult.total}).`)
+    }
+  }
+
+  // Forecasts are re-issued every interval, so like schedules they are not queued
+  const { valid: forecastRecords, rejected: rejectedForecasts } = validateWeatherForecastRecords(collectedForecasts)
+  stats.forecastRecords = forecastRecords.length
+  stats.rejectedForecasts = rejectedForecasts.length
+  if (rejectedForecasts.length > 0) {
+    softErrors.push(`Quarantined ${rejectedForecasts.length} weather forecast records failing validation.`)
+    try {
+      quarantineRecords(tickBucket, 'weather_forecast', rejectedForecasts)
+    } catch (error: any) {
+      softErrors.push(`Quarantine write failed: ${String(error?.message ?? error)}`)
+    }
+  }
+  if (forecastRecords.length > 0) {
+    const forecastResult = await writeWeatherForecastToTurso(forecastRecords)
+    stats.tursoForecastInserted = forecastResult.inserted
+    stats.tursoFailedChunks += forecastResult.chunks.filter((chunk) => !chunk.ok).length
+    if (forecastResult.inserted !== forecastResult.total) {
+      softErrors.push(`Turso weather forecast partial write (${forecastResult.inserted}/${forecastResult.total}).`)
+    }
+  }
+
+  stats.timezonesLearned = learnedTimezones.length
+  if (learnedTimezones.length > 0) {
+    try {
+      await saveParkTimezones(getTursoClient(), learnedTimezones)
+    } catch (error: any) {
+      softErrors.push(`Park timezone write failed: ${String(error?.message ?? error)}`)
     }
   }
 
@@ -323,6 +612,7 @@ async function runCollection() {
     if (weatherRecords.length > 0) {
       const supabaseWeather = await writeWeatherToSupabase(weatherRecords)
       stats.supabaseWeatherInserted = supabaseWeather.inserted
+      captureUnwritten('supabase', 'weather', weatherRecords, supabaseWeather.failedIds)
       if (strictDualWrite && supabaseWeather.inserted !== supabaseWeather.total) {
         hardErrors.push(`Supabase weather partial write (${supabaseWeather.inserted}/${supabaseWeather.total}).`)
       }
@@ -331,6 +621,8 @@ async function runCollection() {
     if (waitTimeRecords.length > 0) {
       const supabaseWait = await writeWaitTimesToSupabase(waitTimeRecords)
       stats.supabaseWaitInserted = supabaseWait.inserted
+      stats.supabaseWaitColumnGroups = supabaseWait.columnGroups
+      captureUnwritten('supabase', 'wait_times', waitTimeRecords, supabaseWait.failedIds)
       if (strictDualWrite && supabaseWait.inserted !== supabaseWait.total) {
         hardErrors.push(`Supabase wait-time partial write (${supabaseWait.inserted}/${supabaseWait.total}).`)
       }
@@ -343,6 +635,12 @@ async function runCollection() {
     hardErrors.push('No targeted locations were processed successfully.')
   }
 
+  const httpStats = getHttpStats()
+  stats.httpRequests = httpStats.requests
+  stats.httpRetries = httpStats.retries
+  stats.httpTimeouts = httpStats.timeouts
+  stats.httpFailures = httpStats.failures
+
   stats.executionTimeMs = Date.now() - startTime
   stats.errors = [...stats.errors, ...softErrors, ...hardErrors]
 
@@ -367,12 +665,22 @@ async function runCollection() {
 
   writeSummary(summary)
 
-  if (!success) {
-    process.exit(1)
+  if (cronLogsEnabled) {
+    await insertCronLog(
+      CRON_JOB_NAME,
+      success ? 'completed' : 'failed',
+      cronLogDetails(summary),
+      success ? null : hardErrors.join(' | '),
+      startTime
+    )
   }
+
+  return success
 }
 
-runCollection().catch((error: any) => {
+runCollection().then((success) => {
+  if (!success) process.exit(1)
+}, async (error: any) => {
   const shardIndex = envInt('SHARD_INDEX', 0, 0, 1024)
   const shardTotal = envInt('SHARD_TOTAL', 1, 1, 1024)
   const summary: CollectorSummary = {
@@ -394,5 +702,10 @@ runCollection().catch((error: any) => {
   }
 
   writeSummary(summary)
+
+  if (envBool('COLLECTOR_CRON_LOGS', true)) {
+    await insertCronLog(CRON_JOB_NAME, 'failed', cronLogDetails(summary), summary.message, collectorStartedAtMs)
+  }
+
   process.exit(1)
 })
@@ -3,6 +3,8 @@
  * Intelligently combines data from multiple sources
  */
 
+import type { QueueDetails } from './records'
+
 export interface WaitTimeData {
   rideId: string
   rideName: string
@@ -11,7 +13,25 @@ export interface WaitTimeData {
   aggregatedWait: number
   confidenceScore: number
   isOpen: boolean
+  // OPERATING / DOWN / CLOSED / REFURBISHMENT from ThemeParks.wiki, when available
+  status?: string
   singleRiderTime?: number
+  // Single rider / return time / boarding group detail (ThemeParks.wiki only)
+  queueDetails?: QueueDetails
+}
+
+/**
+ * Blend weights for rides reported by both sources (should sum to 1)
+ */
+export interface SourceWeights {
+  queueTimes: number
+  themeparks: number
+}
+
+// Used when no learned weights exist for a park or ride (lib/source-weights)
+export const DEFAULT_SOURCE_WEIGHTS: SourceWeights = {
+  queueTimes: 0.55, // Slightly prefer Queue-Times
+  themeparks: 0.45,
 }
 
 export class WaitTimeAggregator {
@@ -62,7 +82,11 @@ export class WaitTimeAggregator {
   /**
    * Aggregate wait times from multiple sources
    */
-  aggregateWaitTime(queueTime?: number, themeparksTime?: number): {
+  aggregateWaitTime(
+    queueTime?: number,
+    themeparksTime?: number,
+    weights: SourceWeights = DEFAULT_SOURCE_WEIGHTS
+  ): {
     aggregated: number
     confidence: number
   } {
@@ -81,13 +105,10 @@ export class WaitTimeAggregator {
       return { aggregated: queueTime, confidence }
     }
     
-    // Both sources available - use weighted average based on historical accuracy
-    // For now, use simple average with slight preference for Queue-Times
-    const queueWeight = 0.55 // Slightly prefer Queue-Times
-    const themeparksWeight = 0.45
-    
+    // Both sources available - weighted average, using learned per-park/ride
+    // weights when the caller has them
     const aggregated = Math.round(
-      (queueTime * queueWeight) + (themeparksTime * themeparksWeight)
+      (queueTime * weights.queueTimes) + (themeparksTime * weights.themeparks)
     )
     
     return { aggregated, confidence }
@@ -95,11 +116,13 @@ export class WaitTimeAggregator {
   
   /**
    * Process ride data from both sources
+   * weightsFor resolves blend weights by Queue-Times ride id (defaults when omitted)
    */
   processRideData(
     queueTimesData: any[],
     themeparksData: any[],
-    rideMapping: Map<string, string>
+    rideMapping: Map<string, string>,
+    weightsFor?: (queueTimesRideId: string) => SourceWeights
   ): WaitTimeData[] {
     const results: WaitTimeData[] = []
     const processedRides = new Set<string>()
@@ -113,7 +136,8 @@ export class WaitTimeAggregator {
       
       const { aggregated, confidence } = this.aggregateWaitTime(
         ride.wait_time,
-        themeparksRide?.wait_time
+        themeparksRide?.wait_time,
+        weightsFor?.(ride.id.toString())
       )
       
       results.push({
@@ -124,7 +148,9 @@ export class WaitTimeAggregator {
         aggregatedWait: aggregated,
         confidenceScore: confidence,
         isOpen: ride.is_open || themeparksRide?.is_open || false,
-        singleRiderTime: themeparksRide?.single_rider_time
+        status: themeparksRide?.status,
+        singleRiderTime: themeparksRide?.single_rider_time,
+        queueDetails: themeparksRide?.queue_details
       })
       
       processedRides.add(ride.id.toString())
@@ -149,7 +175,9 @@ export class WaitTimeAggregator {
           aggregatedWait: aggregated,
           confidenceScore: confidence,
           isOpen: ride.is_open || false,
-          singleRiderTime: ride.single_rider_time
+          status: ride.status,
+          singleRiderTime: ride.single_rider_time,
+          queueDetails: ride.queue_details
         })
       }
     }
@@ -0,0 +1,195 @@
+/**
+ * Per-park collection steps
+ * Turns provider responses into history records; shared by the collectors
+ * and exercised directly by the fixture tests.
+ */
+
+import { aggregator, SourceWeights } from './aggregator'
+import { isParkOpenAt, toScheduleRecords } from './park-schedule'
+import type { ProviderLocation, WaitTimeProvider } from './providers'
+import type { ParkScheduleRecord, WaitTimeRecord } from './records'
+import { themeParksWiki } from './themeparks-wiki'
+
+export type QueueCollection = {
+  records: WaitTimeRecord[]
+  // Rides returned by the providers, including ones with no metadata match
+  ridesCollected: number
+}
+
+export type ScheduleCollection = {
+  // Whether the park is open (within the schedule buffer); null when unknown
+  open: boolean | null
+  records: ParkScheduleRecord[]
+  // Park timezone reported alongside the schedule
+  timezone: string | null
+}
+
+export type AggregatedQueueCollection = QueueCollection & {
+  primaryRides: number
+  secondaryRides: number
+  aggregated: number
+  // Recorded rides by confidence band (>= 0.8, >= 0.6, below)
+  highConfidence: number
+  mediumConfidence: number
+  lowConfidence: number
+}
+
+// Per-park context stamped on every wait-time row
+export type QueueRecordContext = Pick<WaitTimeRecord, 'park_open' | 'local_date' | 'local_hour'>
+
+/**
+ * Fetch a park's ThemeParks.wiki schedule and decide whether it is open now
+ */
+export async function collectParkSchedule(
+  location: ProviderLocation,
+  recordedAt: string,
+  bufferMinutes: number,
+  signal?: AbortSignal
+): Promise<ScheduleCollection> {
+  if (!location.themeparks_id) return { open: null, records: [], timezone: null }
+
+  const response = await themeParksWiki.getParkSchedule(location.themeparks_id, signal)
+  if (!response) return { open: null, records: [], timezone: null }
+
+  return {
+    open: isParkOpenAt(response.schedule, new Date(recordedAt), bufferMinutes),
+    records: toScheduleRecords(String(location.id), location.themeparks_id, response.schedule, recordedAt),
+    timezone: response.timezone,
+  }
+}
+
+/**
+ * Fetch wait times for one park from every supporting provider and map
+ * them to history records; rides that resolve to no metadata id are dropped
+ */
+export async function collectQueues(
+  location: ProviderLocation,
+  providers: WaitTimeProvider[],
+  resolveRideId: (externalId: string | number) => string | undefined,
+  recordedAt: string,
+  signal?: AbortSignal,
+  context: QueueRecordContext = {}
+): Promise<QueueCollection> {
+  const records: WaitTimeRecord[] = []
+  let ridesCollected = 0
+
+  for (const provider of providers) {
+    if (!provider.supports(location)) continue
+
+    const queueItems = await provider.getWaitTimes(location, signal)
+    if (!queueItems || queueItems.length === 0) continue
+
+    ridesCollected += queueItems.length
+    for (const item of queueItems) {
+      const metaId = resolveRideId(item.id)
+      if (!metaId) continue
+      records.push({
+        id: crypto.randomUUID(),
+        item_id: metaId,
+        park_id: String(location.id),
+        wait_time: item.wait_time || 0,
+        is_open: item.is_open !== false,
+        status: item.status ?? null,
+        park_open: context.park_open ?? null,
+        local_date: context.local_date ?? null,
+        local_hour: context.local_hour ?? null,
+        source: provider.name,
+        recorded_at: recordedAt,
+        ...item.queue_details,
+      })
+    }
+  }
+
+  return { records, ridesCollected }
+}
+
+/**
+ * Wrap a metadata resolver so secondary-source ride ids fall back to the
+ * primary id they are mapped to
+ */
+export function withReverseRideMappings(
+  resolveRideId: (externalId: string | number) => string | undefined,
+  rideMappings: Map<string, string>
+): (externalId: string | number) => string | undefined {
+  const primaryIds = new Map<string, string>()
+  for (const [primaryId, secondaryId] of rideMappings) primaryIds.set(secondaryId, primaryId)
+
+  return (externalId) => {
+    const primaryId = primaryIds.get(String(externalId))
+    return resolveRideId(externalId) ?? (primaryId ? resolveRideId(primaryId) : undefined)
+  }
+}
+
+/**
+ * Fetch wait times from a primary and a secondary provider, blend rides
+ * matched through rideMappings (primary id -> secondary id) and score each
+ * result's confidence. Secondary-only rides also resolve through the
+ * reverse mapping, so a mapped ride missing from the primary feed keeps its
+ * metadata id; rides that resolve to no metadata id are dropped.
+ */
+export async function collectAggregatedQueues(
+  location: ProviderLocation,
+  primary: WaitTimeProvider,
+  secondary: WaitTimeProvider,
+  rideMappings: Map<string, string>,
+  resolveRideId: (externalId: string | number) => string | undefined,
+  weightsFor: (metadataId: string | undefined) => SourceWeights,
+  recordedAt: string,
+  signal?: AbortSignal,
+  context: QueueRecordContext = {}
+): Promise<AggregatedQueueCollection> {
+  const [primaryRides, secondaryRides] = await Promise.all(
+    [primary, secondary].map(async (provider) =>
+      (provider.supports(location) ? await provider.getWaitTimes(location, signal) : null) ?? []
+    )
+  )
+
+  const resolve = withReverseRideMappings(resolveRideId, rideMappings)
+  const aggregated = aggregator.processRideData(primaryRides, secondaryRides, rideMappings, (rideId) =>
+    weightsFor(resolve(rideId))
+  )
+  const result: AggregatedQueueCollection = {
+    records: [],
+    ridesCollected: primaryRides.length + secondaryRides.length,
+    primaryRides: primaryRides.length,
+    secondaryRides: secondaryRides.length,
+    aggregated: aggregated.length,
+    highConfidence: 0,
+    mediumConfidence: 0,
+    lowConfidence: 0,
+  }
+
+  for (const ride of aggregated) {
+    const metaId = resolve(ride.rideId)
+    if (!metaId) continue
+
+    if (ride.confidenceScore >= 0.8) result.highConfidence += 1
+    else if (ride.confidenceScore >= 0.6) result.mediumConfidence += 1
+    else result.lowConfidence += 1
+    // Rides only one feed reported keep that feed's name as the source
+    const primaryWait = ride.queueTimesWait ?? null
+    const secondaryWait = ride.themeparksWait ?? null
+    const source = primaryWait != null && secondaryWait != null
+      ? 'dual'
+      : primaryWait != null ? primary.name : secondary.name
+    result.records.push({
+      id: crypto.randomUUID(),
+      item_id: metaId,
+      park_id: String(location.id),
+      wait_time: ride.aggregatedWait,
+      queue_times_wait: primaryWait,
+      themeparks_wait: secondaryWait,
+      confidence: ride.confidenceScore,
+      is_open: ride.isOpen !== false,
+      status: ride.status ?? null,
+      park_open: context.park_open ?? null,
+      local_date: context.local_date ?? null,
+      local_hour: context.local_hour ?? null,
+      source,
+      recorded_at: recordedAt,
+      ...ride.queueDetails,
+    })
+  }
+
+  return result
+}
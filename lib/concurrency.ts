@@ -0,0 +1,143 @@
+/**
+ * Concurrency helpers
+ * A bounded worker pool for per-park processing and a per-host limiter
+ * used by the HTTP layer so each upstream API keeps its own budget.
+ */
+
+/**
+ * Resolve after `ms`, or as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight; results keep input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next
+      next += 1
+      results[index] = await worker(items[index], index)
+    }
+  })
+
+  await Promise.all(runners)
+  return results
+}
+
+/**
+ * Caps concurrent requests and spaces request starts by a minimum interval
+ */
+export class HostLimiter {
+  private active = 0
+  private nextStartMs = 0
+  private waiters: Array<() => void> = []
+
+  constructor(
+    readonly maxConcurrent: number,
+    readonly minIntervalMs: number
+  ) {}
+
+  /**
+   * Wait for a slot in FIFO order; rejects without holding a slot once
+   * `signal` aborts, whether queued or waiting out the start interval
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    while (this.active >= this.maxConcurrent) {
+      if (signal?.aborted) throw new Error('Aborted while waiting for a host slot')
+      await this.waitForRelease(signal)
+    }
+    if (signal?.aborted) {
+      // Pass on the wake-up this caller may have consumed
+      this.waiters.shift()?.()
+      throw new Error('Aborted while waiting for a host slot')
+    }
+    this.active += 1
+
+    // Reserve the next start slot before sleeping so concurrent callers queue behind it
+    const startAt = Math.max(Date.now(), this.nextStartMs)
+    this.nextStartMs = startAt + this.minIntervalMs
+    const waitMs = startAt - Date.now()
+    if (waitMs > 0) await sleep(waitMs, signal)
+    if (signal?.aborted) {
+      this.release()
+      throw new Error('Aborted while waiting for a host slot')
+    }
+  }
+
+  private waitForRelease(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((waiter) => waiter !== wake)
+        resolve()
+      }
+      this.waiters.push(wake)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1)
+    this.waiters.shift()?.()
+  }
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal)
+    try {
+      return await task()
+    } finally {
+      this.release()
+    }
+  }
+}
+
+export type DeadlineResult<T> = { timedOut: false; value: T } | { timedOut: true }
+
+/**
+ * Run a task with a signal that aborts after `budgetMs`; settles as timed out
+ * once the budget is spent even if the task ignores the signal
+ */
+export async function runWithDeadline<T>(
+  budgetMs: number,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<DeadlineResult<T>> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const deadline = new Promise<DeadlineResult<T>>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      resolve({ timedOut: true })
+    }, Math.max(0, budgetMs))
+  })
+
+  try {
+    return await Promise.race([
+      task(controller.signal).then((value): DeadlineResult<T> => ({ timedOut: false, value })),
+      deadline,
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * cron_logs writer
+ * Run rows read by scripts/verify-collector-slo.ts for coverage and timeout checks
+ */
+
+import { getSupabaseServiceClient, isDualWriteEnabled } from './database-clients'
+
+export type CronLogStatus = 'started' | 'completed' | 'failed'
+
+// The parts of the collector summary the monitor reads back
+export type CronRunSummary = {
+  tick_bucket: string
+  shard_index: number
+  shard_total: number
+  coverage_expected_parks: number
+  stats: Record<string, any>
+}
+
+// cron_logs details: the full summary plus the flat keys the monitor consumes.
+export function cronLogDetails(summary: CronRunSummary): Record<string, any> {
+  return {
+    ...summary,
+    tickBucket: summary.tick_bucket,
+    shardIndex: summary.shard_index,
+    shardTotal: summary.shard_total,
+    parksTargeted: summary.stats.parksTargeted ?? summary.coverage_expected_parks,
+    timedOutParks: summary.stats.timedOutParks ?? 0,
+  }
+}
+
+export async function insertCronLog(
+  jobName: string,
+  status: CronLogStatus,
+  details: Record<string, any>,
+  errorMessage: string | null,
+  startedAtMs: number
+): Promise<boolean> {
+  if (!isDualWriteEnabled()) return false
+
+  try {
+    const { error } = await getSupabaseServiceClient().from('cron_logs').insert({
+      job_name: jobName,
+      status,
+      execution_time_ms: Date.now() - startedAtMs,
+      error_message: errorMessage,
+      details,
+    })
+
+    if (error) {
+      console.error(`cron_logs insert failed (${status}):`, error.message)
+      return false
+    }
+    return true
+  } catch (error) {
+    // Best effort only; do not mask the job outcome.
+    console.error(`cron_logs insert failed (${status}):`, error)
+    return false
+  }
+}
@@ -2,16 +2,47 @@
  * Database clients for dual-database architecture
  * - Supabase: Reference data (parks, rides, locations, metadata)
  * - TursoDB: Historical data (wait times, weather)
+ *
+ * Local mode (COLLECTOR_LOCAL_MODE=true) uses a libSQL file instead of Turso
+ * and never touches Supabase.
  */
 
-import { createClient as createSupabase } from '@supabase/supabase-js'
+import * as fs from 'node:fs'
+import { createClient as createSupabase, SupabaseClient } from '@supabase/supabase-js'
 import { createClient as createTurso, Client } from '@libsql/client'
+import {
+  ParkScheduleRecord,
+  pickWeatherMeasurements,
+  QUEUE_DETAIL_FIELDS,
+  WaitTimeRecord,
+  WeatherForecastRecord,
+  WeatherMeasurementField,
+  WeatherMeasurements,
+  WeatherRecord,
+} from './records'
+
+export const DEFAULT_LOCAL_TURSO_URL = 'file:local/collector.db'
+
+export function isLocalMode(): boolean {
+  return ['1', 'true', 'yes', 'on'].includes((process.env.COLLECTOR_LOCAL_MODE || '').trim().toLowerCase())
+}
 
 // Supabase - for reading reference data (parks, rides metadata)
-export const supabase = createSupabase(
-  process.env.SUPABASE_URL || process.env.DB_CONNECTION!,
-  process.env.SUPABASE_KEY || process.env.DB_AUTH!
-)
+let supabaseClient: SupabaseClient | null = null
+
+export function getSupabaseClient(): SupabaseClient {
+  if (supabaseClient) return supabaseClient
+
+  const url = process.env.SUPABASE_URL || process.env.DB_CONNECTION
+  const key = process.env.SUPABASE_KEY || process.env.DB_AUTH
+
+  if (!url || !key) {
+    throw new Error('Supabase credentials not found in environment variables')
+  }
+
+  supabaseClient = createSupabase(url, key)
+  return supabaseClient
+}
 
 // TursoDB - for writing historical data (wait times, weather)
 let tursoClient: Client | null = null
@@ -19,13 +50,21 @@ let tursoClient: Client | null = null
 export function getTursoClient(): Client {
   if (tursoClient) return tursoClient
 
-  const url = process.env.TURSO_DATABASE_URL || process.env.TURSO_DB_URL!
-  const token = process.env.TURSO_AUTH_TOKEN || process.env.TURSO_TOKEN!
+  const url = process.env.TURSO_DATABASE_URL || process.env.TURSO_DB_URL ||
+    (isLocalMode() ? DEFAULT_LOCAL_TURSO_URL : undefined)
+  const token = process.env.TURSO_AUTH_TOKEN || process.env.TURSO_TOKEN
 
-  if (!url || !token) {
+  // file: databases are local libSQL files and need no token
+  if (!url || (!token && !url.startsWith('file:'))) {
     throw new Error('TursoDB credentials not found in environment variables')
   }
 
+  if (url.startsWith('file:')) {
+    const filePath = url.slice('file:'.length)
+    const dir = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : ''
+    if (dir) fs.mkdirSync(dir, { recursive: true })
+  }
+
   tursoClient = createTurso({
     url,
     authToken: token
@@ -34,86 +73,220 @@ export function getTursoClient(): Client {
   return tursoClient
 }
 
-// Helper to write wait times to TursoDB
-export async function writeWaitTimesToTurso(records: any[]) {
-  const turso = getTursoClient()
-  let inserted = 0
+export type TursoChunkResult = {
+  index: number
+  size: number
+  ok: boolean
+  error?: string
+}
 
-  for (const record of records) {
-    try {
-      // Convert types for SQLite
-      const data = {
-        id: record.id?.toString() || crypto.randomUUID(),
-        ride_id: record.item_id?.toString(),
-        park_id: record.park_id?.toString() || null,
-        wait_time: record.wait_time || 0,
-        is_open: record.is_open !== false ? 1 : 0, // Boolean to integer
-        status: record.status || null,
-        source: record.source || 'queue_times',
-        recorded_at: record.recorded_at || new Date().toISOString(),
-        created_at: new Date().toISOString()
-      }
+export type TursoWriteResult = {
+  inserted: number
+  total: number
+  chunks: TursoChunkResult[]
+  failedIds: string[]
+  // Row columns the table does not have yet (pending migration); not written
+  droppedColumns: string[]
+}
 
-      const columns = Object.keys(data).join(', ')
-      const placeholders = Object.keys(data).map(() => '?').join(', ')
-      const values = Object.values(data)
+export type TursoWriteOptions = {
+  // Records per transactional batch (defaults to TURSO_BATCH_SIZE or 200)
+  chunkSize?: number
+}
 
-      await turso.execute({
-        sql: `INSERT OR REPLACE INTO ride_wait_time_history (${columns}) VALUES (${placeholders})`,
-        args: values
-      })
+function resolveTursoChunkSize(options?: TursoWriteOptions): number {
+  const raw = options?.chunkSize ?? Number.parseInt(process.env.TURSO_BATCH_SIZE || '', 10)
+  if (!Number.isFinite(raw)) return 200
+  return Math.max(1, Math.min(1000, Math.floor(raw)))
+}
 
-      inserted++
-    } catch (error) {
-      console.error('Error inserting wait time:', error)
-    }
-  }
+// Columns per Turso table, read once per process; null when the table is missing
+const tursoTableColumns = new Map<string, Set<string> | null>()
 
-  return { inserted, total: records.length }
+export async function getTursoTableColumns(table: string): Promise<Set<string> | null> {
+  const cached = tursoTableColumns.get(table)
+  if (cached !== undefined) return cached
+
+  const { rows } = await getTursoClient().execute(`PRAGMA table_info(${table})`)
+  const columns = rows.length > 0 ? new Set(rows.map((row) => String(row.name))) : null
+  tursoTableColumns.set(table, columns)
+  return columns
 }
 
-// Helper to write weather data to TursoDB
-export async function writeWeatherToTurso(records: any[]) {
+// Forget detected schema capabilities (after migrations, or between tests)
+export function clearSchemaCapabilities(): void {
+  tursoTableColumns.clear()
+  supabaseWaitColumnGroups = null
+}
+
+// Write rows in chunks; each chunk is one libSQL transaction, so a killed job
+// or failed statement never leaves a chunk half-written. Columns the table
+// lacks are dropped, so a database behind on migrations keeps its core rows.
+async function writeRowsToTurso(
+  table: string,
+  rows: Record<string, any>[],
+  options?: TursoWriteOptions
+): Promise<TursoWriteResult> {
   const turso = getTursoClient()
+  const chunkSize = resolveTursoChunkSize(options)
+  const chunks: TursoChunkResult[] = []
+  const failedIds: string[] = []
+  const dropped = new Set<string>()
   let inserted = 0
 
-  for (const record of records) {
-    try {
-      const data = {
-        id: record.id?.toString() || crypto.randomUUID(),
-        park_id: record.location_id?.toString() || null,
-        temperature: record.temperature,
-        feels_like: record.feels_like,
-        precipitation: record.precipitation,
-        humidity: record.humidity,
-        wind_speed: record.wind_speed,
-        uv_index: record.uv_index,
-        weather_code: record.weather_code,
-        weather_description: record.weather_type,
-        cloud_cover: record.cloud_cover || null,
-        visibility: record.visibility || null,
-        pressure: record.pressure || null,
-        recorded_at: record.recorded_at || new Date().toISOString(),
-        source: record.source || 'open_meteo',
-        created_at: new Date().toISOString()
-      }
-
-      const columns = Object.keys(data).filter(k => data[k] !== undefined).join(', ')
-      const values = Object.keys(data).filter(k => data[k] !== undefined).map(k => data[k])
-      const placeholders = values.map(() => '?').join(', ')
+  let tableColumns: Set<string> | null = null
+  try {
+    tableColumns = await getTursoTableColumns(table)
+  } catch (error) {
+    console.error(`Error reading ${table} columns, writing every column:`, error)
+  }
 
-      await turso.execute({
-        sql: `INSERT OR REPLACE INTO park_weather_history (${columns}) VALUES (${placeholders})`,
-        args: values
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    const chunk = rows.slice(i, i + chunkSize)
+    const statements = chunk.map((row) => {
+      const columns = Object.keys(row).filter((k) => {
+        if (row[k] === undefined) return false
+        if (tableColumns && !tableColumns.has(k)) {
+          dropped.add(k)
+          return false
+        }
+        return true
       })
+      const placeholders = columns.map(() => '?').join(', ')
+      return {
+        sql: `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`,
+        args: columns.map(k => row[k])
+      }
+    })
 
-      inserted++
-    } catch (error) {
-      console.error('Error inserting weather:', error)
+    try {
+      await turso.batch(statements, 'write')
+      inserted += chunk.length
+      chunks.push({ index: chunks.length, size: chunk.length, ok: true })
+    } catch (error: any) {
+      console.error(`Error writing ${table} chunk ${chunks.length}:`, error)
+      failedIds.push(...chunk.map(row => String(row.id)))
+      chunks.push({
+        index: chunks.length,
+        size: chunk.length,
+        ok: false,
+        error: String(error?.message ?? error)
+      })
     }
   }
 
-  return { inserted, total: records.length }
+  if (dropped.size > 0) {
+    console.warn(`${table} has no ${Array.from(dropped).join(', ')} column(s); run npm run migrate:turso`)
+  }
+
+  return { inserted, total: rows.length, chunks, failedIds, droppedColumns: Array.from(dropped) }
+}
+
+// Helper to write wait times to TursoDB
+// Queue detail columns present on a record (single rider, return times, boarding groups)
+function queueDetailColumns(record: WaitTimeRecord): Record<string, string | number> {
+  const columns: Record<string, string | number> = {}
+  for (const field of QUEUE_DETAIL_FIELDS) {
+    const value = record[field]
+    if (value != null) columns[field] = value
+  }
+  return columns
+}
+
+export async function writeWaitTimesToTurso(records: WaitTimeRecord[], options?: TursoWriteOptions) {
+  const createdAt = new Date().toISOString()
+
+  const rows = records.map(record => ({
+    // Convert types for SQLite
+    id: record.id?.toString() || crypto.randomUUID(),
+    ride_id: record.item_id?.toString(),
+    park_id: record.park_id?.toString() || null,
+    wait_time: record.wait_time || 0,
+    is_open: record.is_open !== false ? 1 : 0, // Boolean to integer
+    status: record.status || null,
+    source: record.source || 'queue_times',
+    // Per-source columns (migration 0012); omitted for single-source rows
+    queue_times_wait: record.queue_times_wait ?? undefined,
+    themeparks_wait: record.themeparks_wait ?? undefined,
+    confidence: record.confidence ?? undefined,
+    // Queue detail columns (migration 0004); omitted when the source has none
+    ...queueDetailColumns(record),
+    // Park schedule context (migration 0006); omitted when unknown
+    park_open: record.park_open == null ? undefined : record.park_open ? 1 : 0,
+    // Park-local date and hour (migration 0007); omitted when the timezone is unknown
+    local_date: record.local_date ?? undefined,
+    local_hour: record.local_hour ?? undefined,
+    recorded_at: record.recorded_at || createdAt,
+    created_at: createdAt
+  }))
+
+  return writeRowsToTurso('ride_wait_time_history', rows, options)
+}
+
+// Helper to write weather data to TursoDB
+export async function writeWeatherToTurso(records: WeatherRecord[], options?: TursoWriteOptions) {
+  const createdAt = new Date().toISOString()
+
+  const rows = records.map(record => ({
+    id: record.id?.toString() || crypto.randomUUID(),
+    park_id: record.location_id?.toString() || null,
+    // Every measurement column (wind direction, gusts and precipitation probability from migration 0010)
+    ...pickWeatherMeasurements(record),
+    weather_description: record.weather_type,
+    local_date: record.local_date ?? undefined,
+    local_hour: record.local_hour ?? undefined,
+    // Shared-weather source location (migration 0009); omitted when not set
+    source_location_id: record.source_location_id ?? undefined,
+    recorded_at: record.recorded_at || createdAt,
+    source: record.source || 'open_meteo',
+    created_at: createdAt
+  }))
+
+  return writeRowsToTurso('park_weather_history', rows, options)
+}
+
+// Helper to write hourly weather forecasts to TursoDB (upserts on the stable forecast id)
+export async function writeWeatherForecastToTurso(records: WeatherForecastRecord[], options?: TursoWriteOptions) {
+  const createdAt = new Date().toISOString()
+
+  const rows = records.map(record => ({
+    id: record.id,
+    park_id: record.location_id,
+    issued_at: record.issued_at,
+    forecast_time: record.forecast_time,
+    lead_hours: record.lead_hours,
+    temperature: record.temperature,
+    precipitation_probability: record.precipitation_probability,
+    weather_code: record.weather_code,
+    weather_description: record.weather_type,
+    local_date: record.local_date ?? null,
+    local_hour: record.local_hour ?? null,
+    source_location_id: record.source_location_id ?? undefined,
+    source: record.source,
+    created_at: createdAt
+  }))
+
+  return writeRowsToTurso('park_weather_forecast', rows, options)
+}
+
+// Helper to write park schedules to TursoDB (upserts on the stable schedule id)
+export async function writeParkScheduleToTurso(records: ParkScheduleRecord[], options?: TursoWriteOptions) {
+  const updatedAt = new Date().toISOString()
+
+  const rows = records.map(record => ({
+    id: record.id,
+    park_id: record.park_id,
+    themeparks_id: record.themeparks_id,
+    schedule_date: record.schedule_date,
+    schedule_type: record.schedule_type,
+    description: record.description,
+    opening_time: record.opening_time,
+    closing_time: record.closing_time,
+    recorded_at: record.recorded_at,
+    updated_at: updatedAt
+  }))
+
+  return writeRowsToTurso('park_schedule_history', rows, options)
 }
 
 // Helper functions for record counts and verification
@@ -143,39 +316,144 @@ export async function getTursoTableStats() {
 
 // Check if dual-write is enabled (requires Supabase service role key)
 export function isDualWriteEnabled(): boolean {
+  if (isLocalMode()) return false
   const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
   return !!serviceKey && serviceKey.length > 0
 }
 
+// Shared service role client for operational writes (e.g. cron_logs)
+let supabaseServiceClient: SupabaseClient | null = null
+
+export function getSupabaseServiceClient(): SupabaseClient {
+  if (supabaseServiceClient) return supabaseServiceClient
+
+  if (!isDualWriteEnabled()) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY not found in environment variables')
+  }
+
+  supabaseServiceClient = createSupabase(
+    process.env.SUPABASE_URL || process.env.DB_CONNECTION!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+  )
+
+  return supabaseServiceClient
+}
+
+// Optional ride_wait_time_history column groups. A group is sent only when
+// the Supabase table has every column in it; core columns are always sent.
+// DDL for all of them: supabase/ride_wait_time_history_optional_columns.sql
+export const SUPABASE_WAIT_COLUMN_GROUPS = {
+  source: ['source'],
+  aggregation: ['queue_times_wait', 'themeparks_wait', 'confidence'],
+  queue_details: QUEUE_DETAIL_FIELDS as string[],
+}
+
+export type SupabaseWaitColumnGroup = keyof typeof SUPABASE_WAIT_COLUMN_GROUPS
+
+// Env overrides per group: 'true' sends the group without probing, 'false' never sends it
+const SUPABASE_WAIT_COLUMN_OVERRIDES: Partial<Record<SupabaseWaitColumnGroup, string>> = {
+  queue_details: 'SUPABASE_QUEUE_DETAILS',
+}
+
+let supabaseWaitColumnGroups: SupabaseWaitColumnGroup[] | null = null
+
+// The part of a Supabase client the column probe uses
+export type SupabaseProbeClient = {
+  from(table: string): {
+    select(columns: string): {
+      limit(count: number): PromiseLike<{ error: { message: string } | null }>
+    }
+  }
+}
+
+/**
+ * Probe which optional column groups Supabase ride_wait_time_history has
+ * (once per process). SUPABASE_EXTENDED_COLUMNS=false skips the probe and
+ * sends core columns only; a group's own override skips probing that group.
+ */
+export async function detectSupabaseWaitColumns(client: SupabaseProbeClient): Promise<SupabaseWaitColumnGroup[]> {
+  if (supabaseWaitColumnGroups) return supabaseWaitColumnGroups
+  if (process.env.SUPABASE_EXTENDED_COLUMNS === 'false') {
+    supabaseWaitColumnGroups = []
+    return supabaseWaitColumnGroups
+  }
+
+  const groups: SupabaseWaitColumnGroup[] = []
+  for (const group of Object.keys(SUPABASE_WAIT_COLUMN_GROUPS) as SupabaseWaitColumnGroup[]) {
+    const envName = SUPABASE_WAIT_COLUMN_OVERRIDES[group]
+    const override = envName ? process.env[envName] : undefined
+    if (override === 'false') continue
+    if (override === 'true') {
+      groups.push(group)
+      continue
+    }
+
+    const { error } = await client
+      .from('ride_wait_time_history')
+      .select(SUPABASE_WAIT_COLUMN_GROUPS[group].join(','))
+      .limit(1)
+    if (error) {
+      console.log(`Supabase ride_wait_time_history lacks ${group} columns (${error.message}); sending core columns`)
+    } else {
+      groups.push(group)
+    }
+  }
+
+  supabaseWaitColumnGroups = groups
+  return groups
+}
+
+/**
+ * Supabase ride_wait_time_history row: schema-safe core columns plus the
+ * detected optional groups
+ */
+export function toSupabaseWaitTimeRow(record: WaitTimeRecord, groups: SupabaseWaitColumnGroup[]): Record<string, any> {
+  return {
+    id: record.id?.toString() || crypto.randomUUID(),
+    ride_id: record.item_id?.toString(),
+    wait_time: record.wait_time || 0,
+    is_open: record.is_open !== false,
+    recorded_at: record.recorded_at || new Date().toISOString(),
+    ...(groups.includes('source') ? { source: record.source || 'queue_times' } : {}),
+    ...(groups.includes('aggregation')
+      ? {
+          queue_times_wait: record.queue_times_wait ?? null,
+          themeparks_wait: record.themeparks_wait ?? null,
+          confidence: record.confidence ?? null,
+        }
+      : {}),
+    ...(groups.includes('queue_details') ? queueDetailColumns(record) : {}),
+  }
+}
+
 // Helper to write wait times to Supabase
-export async function writeWaitTimesToSupabase(records: any[]) {
+export async function writeWaitTimesToSupabase(records: WaitTimeRecord[]) {
   if (!isDualWriteEnabled()) {
     console.log('⚠️  Supabase dual-write disabled (no SUPABASE_SERVICE_ROLE_KEY)')
-    return { inserted: 0, total: records.length, skipped: true }
+    return {
+      inserted: 0,
+      total: records.length,
+      skipped: true,
+      failedIds: [] as string[],
+      columnGroups: [] as SupabaseWaitColumnGroup[],
+    }
   }
 
   // Use service role client for writes
-  const serviceClient = createSupabase(
-    process.env.SUPABASE_URL || process.env.DB_CONNECTION!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  )
+  const serviceClient = getSupabaseServiceClient()
 
   let inserted = 0
+  const failedIds: string[] = []
   const BATCH_SIZE = 100
+  // Some environments do not have optional columns like park_id/status, so
+  // only core columns and the groups the table is known to have are sent.
+  const columnGroups = await detectSupabaseWaitColumns(serviceClient)
 
   // Process in batches for efficiency
   for (let i = 0; i < records.length; i += BATCH_SIZE) {
     const batch = records.slice(i, i + BATCH_SIZE)
-
-    // Keep Supabase payload to schema-safe core columns.
-    // Some environments do not have optional columns like park_id/status.
-    const formattedRecords = batch.map(record => ({
-      id: record.id?.toString() || crypto.randomUUID(),
-      ride_id: record.item_id?.toString(),
-      wait_time: record.wait_time || 0,
-      is_open: record.is_open !== false,
-      recorded_at: record.recorded_at || new Date().toISOString()
-    }))
+    const formattedRecords = batch.map(record => toSupabaseWaitTimeRow(record, columnGroups))
 
     try {
       const { error } = await serviceClient
@@ -187,31 +465,43 @@ export async function writeWaitTimesToSupabase(records: any[]) {
 
       if (error) {
         console.error('Supabase wait time batch error:', error.message)
+        failedIds.push(...formattedRecords.map(record => record.id))
       } else {
         inserted += batch.length
       }
     } catch (error) {
       console.error('Error writing wait times to Supabase:', error)
+      failedIds.push(...formattedRecords.map(record => record.id))
     }
   }
 
-  return { inserted, total: records.length, skipped: false }
+  return { inserted, total: records.length, skipped: false, failedIds, columnGroups }
+}
+
+// Measurement columns every Supabase park_weather_history has; newer ones
+// (wind direction, gusts, precipitation probability) are Turso-only for now.
+const SUPABASE_WEATHER_FIELDS: WeatherMeasurementField[] = [
+  'temperature', 'feels_like', 'precipitation', 'humidity', 'wind_speed', 'uv_index', 'weather_code',
+  'cloud_cover', 'visibility', 'pressure',
+]
+
+function supabaseWeatherColumns(record: WeatherRecord): Partial<WeatherMeasurements> {
+  const measurements = pickWeatherMeasurements(record)
+  return Object.fromEntries(SUPABASE_WEATHER_FIELDS.map((field) => [field, measurements[field]]))
 }
 
 // Helper to write weather data to Supabase
-export async function writeWeatherToSupabase(records: any[]) {
+export async function writeWeatherToSupabase(records: WeatherRecord[]) {
   if (!isDualWriteEnabled()) {
     console.log('⚠️  Supabase dual-write disabled (no SUPABASE_SERVICE_ROLE_KEY)')
-    return { inserted: 0, total: records.length, skipped: true }
+    return { inserted: 0, total: records.length, skipped: true, failedIds: [] as string[] }
   }
 
   // Use service role client for writes
-  const serviceClient = createSupabase(
-    process.env.SUPABASE_URL || process.env.DB_CONNECTION!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  )
+  const serviceClient = getSupabaseServiceClient()
 
   let inserted = 0
+  const failedIds: string[] = []
   const BATCH_SIZE = 100
 
   for (let i = 0; i < records.length; i += BATCH_SIZE) {
@@ -220,17 +510,8 @@ export async function writeWeatherToSupabase(records: any[]) {
     const formattedRecords = batch.map(record => ({
       id: record.id?.toString() || crypto.randomUUID(),
       park_id: record.location_id?.toString() || null,
-      temperature: record.temperature,
-      feels_like: record.feels_like,
-      precipitation: record.precipitation,
-      humidity: record.humidity,
-      wind_speed: record.wind_speed,
-      uv_index: record.uv_index,
-      weather_code: record.weather_code,
+      ...supabaseWeatherColumns(record),
       weather_description: record.weather_type,
-      cloud_cover: record.cloud_cover || null,
-      visibility: record.visibility || null,
-      pressure: record.pressure || null,
       recorded_at: record.recorded_at || new Date().toISOString(),
       source: record.source || 'open_meteo'
     }))
@@ -245,13 +526,15 @@ export async function writeWeatherToSupabase(records: any[]) {
 
       if (error) {
         console.error('Supabase weather batch error:', error.message)
+        failedIds.push(...formattedRecords.map(record => record.id))
       } else {
         inserted += batch.length
       }
     } catch (error) {
       console.error('Error writing weather to Supabase:', error)
+      failedIds.push(...formattedRecords.map(record => record.id))
     }
   }
 
-  return { inserted, total: records.length, skipped: false }
+  return { inserted, total: records.length, skipped: false, failedIds }
 }
@@ -0,0 +1,198 @@
+/**
+ * Ride downtime events
+ * Derives "ride went DOWN at X, back at Y" events from consecutive status
+ * ticks in ride_wait_time_history and stores them in ride_downtime_events.
+ * Only DOWN (unplanned) counts as downtime; CLOSED and REFURBISHMENT are
+ * scheduled and end an event rather than start one.
+ */
+
+import * as crypto from 'node:crypto'
+import type { Client } from '@libsql/client'
+
+export type StatusSample = {
+  ride_id: string
+  park_id: string | null
+  recorded_at: string
+  status: string
+}
+
+export type DowntimeEvent = {
+  id: string
+  ride_id: string
+  park_id: string | null
+  started_at: string // first DOWN tick
+  last_down_at: string // last DOWN tick seen
+  ended_at: string | null // first tick after the outage; null while ongoing
+  ended_status: string | null // status at ended_at, or GAP when data stopped
+  duration_minutes: number | null
+  down_ticks: number
+}
+
+export type DeriveDowntimeOptions = {
+  // Consecutive ticks further apart than this break an event (default 30)
+  maxGapMinutes?: number
+  // Stored events still open (ended_at null); extended or closed by newer ticks
+  openEvents?: DowntimeEvent[]
+}
+
+const DOWN = 'DOWN'
+const GAP = 'GAP'
+
+function eventId(rideId: string, startedAt: string): string {
+  return crypto.createHash('sha256').update(`${rideId}|${startedAt}`).digest('hex').slice(0, 32)
+}
+
+function minutesBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / 60000
+}
+
+/**
+ * Build downtime events from status samples. A ride with a stored open event
+ * resumes it from the ticks after its last DOWN tick, so outages that began
+ * before the window still close. Otherwise a DOWN run already in progress at
+ * the first sample is skipped: its start lies before the window.
+ */
+export function deriveDowntimeEvents(samples: StatusSample[], options: DeriveDowntimeOptions = {}): DowntimeEvent[] {
+  const maxGapMinutes = options.maxGapMinutes ?? 30
+  const openByRide = new Map((options.openEvents ?? []).map((event) => [event.ride_id, event]))
+
+  // One status per ride per tick; later rows for the same tick win
+  const byRide = new Map<string, Map<string, StatusSample>>()
+  for (const sample of samples) {
+    const ticks = byRide.get(sample.ride_id) ?? new Map<string, StatusSample>()
+    ticks.set(sample.recorded_at, sample)
+    byRide.set(sample.ride_id, ticks)
+  }
+
+  const events: DowntimeEvent[] = []
+
+  for (const [rideId, ticks] of byRide) {
+    const stored = openByRide.get(rideId)
+    const series = Array.from(ticks.values())
+      .filter((sample) => !stored || sample.recorded_at > stored.last_down_at)
+      .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+    if (series.length === 0) continue
+
+    let open: DowntimeEvent | null = stored ? { ...stored } : null
+    let skippingLeadingRun = !stored && series[0].status === DOWN
+
+    const close = (endedAt: string | null, endedStatus: string) => {
+      if (!open) return
+      open.ended_at = endedAt ?? open.last_down_at
+      open.ended_status = endedStatus
+      open.duration_minutes = Math.round(minutesBetween(open.started_at, open.ended_at))
+      events.push(open)
+      open = null
+    }
+
+    for (let i = 0; i < series.length; i += 1) {
+      const sample = series[i]
+      const previousAt = series[i - 1]?.recorded_at ?? stored?.last_down_at
+      const gap = previousAt ? minutesBetween(previousAt, sample.recorded_at) > maxGapMinutes : false
+
+      if (skippingLeadingRun) {
+        if (sample.status === DOWN && !gap) continue
+        skippingLeadingRun = false
+      }
+
+      if (open && gap) close(null, GAP)
+
+      if (sample.status === DOWN) {
+        if (open) {
+          open.last_down_at = sample.recorded_at
+          open.down_ticks += 1
+        } else {
+          open = {
+            id: eventId(sample.ride_id, sample.recorded_at),
+            ride_id: sample.ride_id,
+            park_id: sample.park_id,
+            started_at: sample.recorded_at,
+            last_down_at: sample.recorded_at,
+            ended_at: null,
+            ended_status: null,
+            duration_minutes: null,
+            down_ticks: 1,
+          }
+        }
+      } else if (open) {
+        close(sample.recorded_at, sample.status)
+      }
+    }
+
+    // Still down at the latest tick
+    if (open) events.push(open)
+  }
+
+  return events.sort((a, b) => a.started_at.localeCompare(b.started_at) || a.ride_id.localeCompare(b.ride_id))
+}
+
+/**
+ * Status ticks for one park since a cutoff (rows without a status are ignored)
+ */
+export async function readStatusSamples(client: Client, parkId: string, sinceIso: string): Promise<StatusSample[]> {
+  const result = await client.execute({
+    sql: `SELECT ride_id, park_id, recorded_at, status
+      FROM ride_wait_time_history
+      WHERE park_id = ? AND recorded_at >= ? AND status IS NOT NULL`,
+    args: [parkId, sinceIso],
+  })
+
+  return result.rows.map((row: any) => ({
+    ride_id: String(row.ride_id),
+    park_id: row.park_id != null ? String(row.park_id) : null,
+    recorded_at: String(row.recorded_at),
+    status: String(row.status),
+  }))
+}
+
+/**
+ * Events for one park still open (ended_at null) in ride_downtime_events
+ */
+export async function readOpenDowntimeEvents(client: Client, parkId: string): Promise<DowntimeEvent[]> {
+  const result = await client.execute({
+    sql: `SELECT id, ride_id, park_id, started_at, last_down_at, down_ticks
+      FROM ride_downtime_events
+      WHERE park_id = ? AND ended_at IS NULL`,
+    args: [parkId],
+  })
+
+  return result.rows.map((row: any) => ({
+    id: String(row.id),
+    ride_id: String(row.ride_id),
+    park_id: row.park_id != null ? String(row.park_id) : null,
+    started_at: String(row.started_at),
+    last_down_at: String(row.last_down_at),
+    ended_at: null,
+    ended_status: null,
+    duration_minutes: null,
+    down_ticks: Number(row.down_ticks),
+  }))
+}
+
+/**
+ * Upsert events by id; re-deriving an ongoing event updates it in place
+ */
+export async function writeDowntimeEvents(client: Client, events: DowntimeEvent[]): Promise<void> {
+  if (events.length === 0) return
+
+  const updatedAt = new Date().toISOString()
+  await client.batch(
+    events.map((event) => ({
+      sql: `INSERT OR REPLACE INTO ride_downtime_events (id, ride_id, park_id, started_at, last_down_at,
+        ended_at, ended_status, duration_minutes, down_ticks, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        event.id,
+        event.ride_id,
+        event.park_id,
+        event.started_at,
+        event.last_down_at,
+        event.ended_at,
+        event.ended_status,
+        event.duration_minutes,
+        event.down_ticks,
+        updatedAt,
+      ],
+    })),
+    'write'
+  )
+}
@@ -0,0 +1,79 @@
+/**
+ * Per-tick weather sharing between nearby locations
+ * Parks in the same resort sit a few kilometres apart and get near-identical
+ * Open-Meteo data, so the first location fetched in an area becomes that
+ * bucket's source and every location within the radius reuses its reading.
+ */
+
+import { distanceKm } from './geo'
+import type { WeatherReading } from './providers'
+
+export type SharedWeather = {
+  reading: WeatherReading
+  // Location whose coordinates were actually fetched
+  sourceLocationId: string
+  distanceKm: number
+}
+
+type Bucket = {
+  locationId: string
+  lat: number
+  lon: number
+  reading: Promise<WeatherReading | null>
+}
+
+export class GeoWeatherCache {
+  private buckets: Bucket[] = []
+  private fetches = 0
+  private shared = 0
+
+  // radiusKm <= 0 disables sharing; every location fetches its own weather
+  constructor(private radiusKm: number) {}
+
+  get stats() {
+    return { fetches: this.fetches, shared: this.shared }
+  }
+
+  private nearest(lat: number, lon: number): { bucket: Bucket; distance: number } | null {
+    let best: { bucket: Bucket; distance: number } | null = null
+    for (const bucket of this.buckets) {
+      const distance = distanceKm(lat, lon, bucket.lat, bucket.lon)
+      if (distance <= this.radiusKm && (!best || distance < best.distance)) best = { bucket, distance }
+    }
+    return best
+  }
+
+  /**
+   * Reuse the reading of a bucket within the radius, or fetch and open a new
+   * bucket. In-flight fetches are shared too; if a shared fetch comes back
+   * empty (e.g. the source park timed out) the caller fetches for itself.
+   */
+  async getOrFetch(
+    locationId: string,
+    lat: number,
+    lon: number,
+    fetch: () => Promise<WeatherReading | null>
+  ): Promise<SharedWeather | null> {
+    if (this.radiusKm > 0) {
+      const near = this.nearest(lat, lon)
+      if (near) {
+        const reading = await near.bucket.reading
+        if (reading) {
+          this.shared += 1
+          return { reading, sourceLocationId: near.bucket.locationId, distanceKm: Number(near.distance.toFixed(2)) }
+        }
+      }
+    }
+
+    const bucket: Bucket = { locationId, lat, lon, reading: fetch().catch(() => null) }
+    this.buckets.push(bucket)
+    this.fetches += 1
+
+    const reading = await bucket.reading
+    if (!reading) {
+      this.buckets = this.buckets.filter((candidate) => candidate !== bucket)
+      return null
+    }
+    return { reading, sourceLocationId: locationId, distanceKm: 0 }
+  }
+}
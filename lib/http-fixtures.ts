@@ -0,0 +1,88 @@
+/**
+ * Recorded HTTP fixtures
+ * HTTP_FIXTURE_MODE=record saves every upstream response to a JSON file;
+ * HTTP_FIXTURE_MODE=replay serves those files instead of touching the network.
+ * One file per URL under HTTP_FIXTURE_DIR (default fixtures/http), grouped by host.
+ */
+
+import * as crypto from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+export type HttpFixtureMode = 'record' | 'replay' | 'off'
+
+export type HttpFixture = {
+  url: string
+  status: number
+  headers: Record<string, string>
+  // Parsed JSON when the body is JSON, raw text otherwise
+  body: unknown
+  recordedAt: string
+}
+
+export const DEFAULT_FIXTURE_DIR = 'fixtures/http'
+
+// Long query strings (e.g. Open-Meteo variable lists) are shortened with a hash suffix
+const MAX_SLUG_LENGTH = 120
+
+export function getFixtureMode(): HttpFixtureMode {
+  const mode = (process.env.HTTP_FIXTURE_MODE || '').trim().toLowerCase()
+  return mode === 'record' || mode === 'replay' ? mode : 'off'
+}
+
+export function getFixtureDir(): string {
+  return process.env.HTTP_FIXTURE_DIR || DEFAULT_FIXTURE_DIR
+}
+
+/**
+ * Fixture path for a URL: <dir>/<host>/<path and query as a file-safe slug>.json
+ */
+export function fixturePath(url: string, dir = getFixtureDir()): string {
+  const parsed = new URL(url)
+  const slug = `${parsed.pathname}${parsed.search}`
+    .replace(/^\/+/, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+  const name = slug.length > MAX_SLUG_LENGTH
+    ? `${slug.slice(0, 80)}_${crypto.createHash('sha256').update(slug).digest('hex').slice(0, 12)}`
+    : slug
+  return path.join(dir, parsed.hostname, `${name || 'index'}.json`)
+}
+
+/**
+ * Save a response as a fixture; the caller's response body is left unread
+ */
+export async function recordFixture(url: string, response: Response): Promise<void> {
+  const text = await response.clone().text()
+  let body: unknown = text
+  try {
+    body = JSON.parse(text)
+  } catch {
+    // Non-JSON bodies are stored verbatim
+  }
+
+  const fixture: HttpFixture = {
+    url,
+    status: response.status,
+    headers: { 'content-type': response.headers.get('content-type') || 'application/json' },
+    body,
+    recordedAt: new Date().toISOString(),
+  }
+
+  const file = fixturePath(url)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8')
+}
+
+/**
+ * Build a Response from a recorded fixture; throws when none was recorded
+ */
+export function replayFixture(url: string): Response {
+  const file = fixturePath(url)
+  if (!fs.existsSync(file)) {
+    throw new Error(`No HTTP fixture for ${url} (expected ${file})`)
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as HttpFixture
+  const body = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body)
+  return new Response(body, { status: fixture.status, headers: fixture.headers })
+}
@@ -0,0 +1,183 @@
+/**
+ * Shared HTTP layer for upstream APIs
+ * Per-request timeouts, bounded retries with jittered exponential backoff,
+ * and Retry-After support on 429/503. Counters feed collector run stats.
+ * Each upstream host gets its own concurrency and request-spacing budget.
+ * HTTP_FIXTURE_MODE switches to recording or replaying fixtures (lib/http-fixtures).
+ */
+
+import { HostLimiter, sleep } from './concurrency'
+import { getFixtureMode, recordFixture, replayFixture } from './http-fixtures'
+
+export type FetchRetryOptions = {
+  init?: RequestInit
+  // Caller cancellation (e.g. a per-park deadline); stops retries immediately
+  signal?: AbortSignal
+  // Per-attempt timeout (defaults to HTTP_TIMEOUT_MS or 10s)
+  timeoutMs?: number
+  // Retries after the first attempt (defaults to HTTP_MAX_RETRIES or 2)
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+export type HttpStats = {
+  requests: number
+  retries: number
+  timeouts: number
+  failures: number
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+const MAX_RETRY_AFTER_MS = 30 * 1000
+
+// Budgets per upstream host; override with <PREFIX>_MAX_CONCURRENCY / <PREFIX>_MIN_INTERVAL_MS
+const HOST_BUDGETS: Record<string, { envPrefix: string; maxConcurrent: number; minIntervalMs: number }> = {
+  'queue-times.com': { envPrefix: 'QUEUE_TIMES', maxConcurrent: 2, minIntervalMs: 250 },
+  'api.themeparks.wiki': { envPrefix: 'THEMEPARKS', maxConcurrent: 4, minIntervalMs: 100 },
+  'api.open-meteo.com': { envPrefix: 'OPEN_METEO', maxConcurrent: 4, minIntervalMs: 100 },
+}
+
+const hostLimiters = new Map<string, HostLimiter>()
+
+const httpStats: HttpStats = {
+  requests: 0,
+  retries: 0,
+  timeouts: 0,
+  failures: 0,
+}
+
+function envNumber(name: string, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(process.env[name] || '', 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.max(min, Math.min(max, parsed))
+}
+
+function getHostLimiter(url: string): HostLimiter | null {
+  let host: string
+  try {
+    host = new URL(url).hostname
+  } catch {
+    return null
+  }
+
+  const budget = HOST_BUDGETS[host]
+  if (!budget) return null
+
+  let limiter = hostLimiters.get(host)
+  if (!limiter) {
+    limiter = new HostLimiter(
+      envNumber(`${budget.envPrefix}_MAX_CONCURRENCY`, budget.maxConcurrent, 1, 64),
+      envNumber(`${budget.envPrefix}_MIN_INTERVAL_MS`, budget.minIntervalMs, 0, 60000)
+    )
+    hostLimiters.set(host, limiter)
+  }
+  return limiter
+}
+
+/**
+ * Parse Retry-After as delta-seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null, nowMs = Date.now()): number | null {
+  if (!header) return null
+  const seconds = Number(header.trim())
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  if (Number.isFinite(date)) return Math.max(0, date - nowMs)
+  return null
+}
+
+/**
+ * Full-jitter exponential backoff delay for a zero-based attempt
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.floor(Math.random() * ceiling)
+}
+
+/**
+ * fetch() with timeout and retries. Resolves with the last response (which
+ * may be non-OK) and rejects only when the final attempt errored or timed out.
+ */
+export async function fetchWithRetry(url: string, options: FetchRetryOptions = {}): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? envNumber('HTTP_TIMEOUT_MS', 10000, 500, 120000)
+  const retries = options.retries ?? envNumber('HTTP_MAX_RETRIES', 2, 0, 10)
+  const baseDelayMs = options.baseDelayMs ?? 500
+  const maxDelayMs = options.maxDelayMs ?? 10000
+  const limiter = getHostLimiter(url)
+  const callerSignal = options.signal
+  const fixtureMode = getFixtureMode()
+
+  if (fixtureMode === 'replay') {
+    httpStats.requests += 1
+    return replayFixture(url)
+  }
+
+  for (let attempt = 0; ; attempt += 1) {
+    if (callerSignal?.aborted) throw new Error(`Request aborted: ${url}`)
+
+    // Hold the host slot only while the request is in flight, not during backoff.
+    // A caller that aborts while queued gives up its place without sending.
+    try {
+      await limiter?.acquire(callerSignal)
+    } catch {
+      throw new Error(`Request aborted: ${url}`)
+    }
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    const onCallerAbort = () => controller.abort()
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true })
+    let delayMs: number
+
+    httpStats.requests += 1
+    try {
+      const response = await fetch(url, { ...options.init, signal: controller.signal })
+
+      if (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= retries) {
+        if (!response.ok) httpStats.failures += 1
+        if (fixtureMode === 'record') await recordFixture(url, response)
+        return response
+      }
+
+      const retryAfter =
+        response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('retry-after'))
+          : null
+      delayMs = retryAfter != null
+        ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+        : backoffDelay(attempt, baseDelayMs, maxDelayMs)
+      // Release the connection instead of holding the unread body through the backoff
+      await response.body?.cancel()
+    } catch (error) {
+      if (callerSignal?.aborted) throw new Error(`Request aborted: ${url}`)
+      if (timedOut) httpStats.timeouts += 1
+      if (attempt >= retries) {
+        httpStats.failures += 1
+        throw timedOut ? new Error(`Request timed out after ${timeoutMs}ms: ${url}`) : error
+      }
+      delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs)
+    } finally {
+      clearTimeout(timer)
+      callerSignal?.removeEventListener('abort', onCallerAbort)
+      limiter?.release()
+    }
+
+    httpStats.retries += 1
+    await sleep(delayMs, callerSignal)
+  }
+}
+
+export function getHttpStats(): HttpStats {
+  return { ...httpStats }
+}
+
+export function resetHttpStats(): void {
+  httpStats.requests = 0
+  httpStats.retries = 0
+  httpStats.timeouts = 0
+  httpStats.failures = 0
+}
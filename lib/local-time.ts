@@ -0,0 +1,133 @@
+/**
+ * Park-local time
+ * Each park carries an IANA timezone, learned from the ThemeParks.wiki
+ * schedule or Open-Meteo (timezone=auto) and kept in Turso park_timezones.
+ * The collector polls a park only inside its active window in local time and
+ * stamps history rows with the local date and hour.
+ */
+
+import type { Client } from '@libsql/client'
+
+export type LocalTimeParts = {
+  local_date: string // YYYY-MM-DD in the park's timezone
+  local_hour: number // 0-23
+}
+
+export type ActiveWindow = {
+  // Minutes after local midnight; end <= start wraps past midnight
+  start: number
+  end: number
+}
+
+export type ParkTimezone = {
+  park_id: string
+  timezone: string
+  source: string // mappings, themeparks_wiki or open_meteo
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.trim() === '') return false
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function localFields(at: Date, timeZone: string) {
+  const parts: Record<string, string> = {}
+  for (const part of formatterFor(timeZone).formatToParts(at)) parts[part.type] = part.value
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  }
+}
+
+/**
+ * Local calendar date and hour of a UTC timestamp in a timezone
+ */
+export function localTimeParts(at: string | Date, timeZone: string): LocalTimeParts {
+  const { date, hour } = localFields(typeof at === 'string' ? new Date(at) : at, timeZone)
+  return { local_date: date, local_hour: hour }
+}
+
+function parseClock(raw: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(raw.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Parse "HH:MM-HH:MM" (e.g. "07:00-01:00"); "off" or empty means always active
+ */
+export function parseActiveWindow(raw: string | null | undefined): ActiveWindow | null {
+  const value = (raw || '').trim().toLowerCase()
+  if (!value || value === 'off') return null
+
+  const [from, to, ...rest] = value.split('-')
+  const start = from != null ? parseClock(from) : null
+  const end = to != null ? parseClock(to) : null
+  if (start == null || end == null || rest.length > 0) {
+    throw new Error(`Invalid active window "${raw}" (expected HH:MM-HH:MM)`)
+  }
+  return { start: start % 1440, end: end === 1440 && start === 0 ? 1440 : end % 1440 }
+}
+
+/**
+ * Whether a moment falls inside the window in the given timezone
+ */
+export function isWithinActiveWindow(window: ActiveWindow, at: Date, timeZone: string): boolean {
+  const { hour, minute } = localFields(at, timeZone)
+  const minutes = hour * 60 + minute
+  if (window.start < window.end) return minutes >= window.start && minutes < window.end
+  return minutes >= window.start || minutes < window.end
+}
+
+/**
+ * Learned timezones by location id
+ */
+export async function loadParkTimezones(client: Client): Promise<Map<string, string>> {
+  const result = await client.execute('SELECT park_id, timezone FROM park_timezones')
+  const timezones = new Map<string, string>()
+  for (const row of result.rows as any[]) {
+    if (isValidTimeZone(row.timezone)) timezones.set(String(row.park_id), String(row.timezone))
+  }
+  return timezones
+}
+
+export async function saveParkTimezones(client: Client, timezones: ParkTimezone[]): Promise<void> {
+  if (timezones.length === 0) return
+
+  const updatedAt = new Date().toISOString()
+  await client.batch(
+    timezones.map((entry) => ({
+      sql: 'INSERT OR REPLACE INTO park_timezones (park_id, timezone, source, updated_at) VALUES (?, ?, ?, ?)',
+      args: [entry.park_id, entry.timezone, entry.source, updatedAt],
+    })),
+    'write'
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * Name normalization and similarity shared by ride and park matching
+ */
+
+const STOPWORDS = new Set(['the', 'a', 'an'])
+
+/**
+ * Lowercase, strip accents, trademark signs and punctuation, drop articles
+ */
+export function normalizeRideName(name: string): string {
+  return name
+    .replace(/[\u2122\u00ae\u00a9\u2120]/g, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2018\u2019`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !STOPWORDS.has(token))
+    .join(' ')
+}
+
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/ /g, '')
+  const counts = new Map<string, number>()
+  for (let i = 0; i < compact.length - 1; i += 1) {
+    const gram = compact.slice(i, i + 2)
+    counts.set(gram, (counts.get(gram) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * 0-1 similarity of two ride names: the better of character-bigram Dice and
+ * token containment (so "TRON Lightcycle / Run" still matches a name with a
+ * sponsor suffix). Containment needs two shared tokens to avoid pairing every
+ * "... Mountain".
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeRideName(a)
+  const right = normalizeRideName(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const leftGrams = bigrams(left)
+  const rightGrams = bigrams(right)
+  let overlap = 0
+  let total = 0
+  for (const count of leftGrams.values()) total += count
+  for (const [gram, count] of rightGrams) {
+    total += count
+    overlap += Math.min(count, leftGrams.get(gram) ?? 0)
+  }
+  const dice = total > 0 ? (2 * overlap) / total : 0
+
+  const leftTokens = new Set(left.split(' '))
+  const rightTokens = new Set(right.split(' '))
+  const shared = Array.from(leftTokens).filter((token) => rightTokens.has(token)).length
+  const shorter = Math.min(leftTokens.size, rightTokens.size)
+  const containment = shorter >= 2 && shared === shorter ? 0.9 : 0
+
+  return Math.max(dice, containment)
+}
@@ -0,0 +1,150 @@
+/**
+ * Open-Meteo API Client
+ * Free weather API, no key required
+ * Documentation: https://open-meteo.com/en/docs
+ */
+
+import { fetchWithRetry } from './http'
+import { pickWeatherMeasurements, WeatherMeasurementField, WeatherMeasurements } from './records'
+
+// Current conditions keyed by weather record field
+export interface OpenMeteoCurrent extends WeatherMeasurements {
+  // IANA timezone of the coordinate (timezone=auto)
+  timezone: string | undefined
+  // Hourly forecast from the current hour; only present when requested
+  forecast?: OpenMeteoForecastHour[]
+}
+
+export interface OpenMeteoForecastHour {
+  time: string // ISO UTC start of the hour
+  temp: number | undefined
+  precip_prob: number | undefined
+  code: number | undefined
+}
+
+/**
+ * Open-Meteo `current` variable for each weather measurement. Units are the
+ * API defaults: °C, mm, %, km/h, degrees, metres (visibility) and hPa.
+ */
+export const OPEN_METEO_VARIABLES: Record<WeatherMeasurementField, string> = {
+  temperature: 'temperature_2m',
+  feels_like: 'apparent_temperature',
+  precipitation: 'precipitation',
+  precipitation_probability: 'precipitation_probability',
+  humidity: 'relative_humidity_2m',
+  wind_speed: 'wind_speed_10m',
+  wind_direction: 'wind_direction_10m',
+  wind_gusts: 'wind_gusts_10m',
+  uv_index: 'uv_index',
+  weather_code: 'weather_code',
+  cloud_cover: 'cloud_cover',
+  visibility: 'visibility',
+  pressure: 'pressure_msl',
+}
+
+const CURRENT_VARIABLES = Object.values(OPEN_METEO_VARIABLES)
+
+const HOURLY_VARIABLES = ['temperature_2m', 'precipitation_probability', 'weather_code']
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Hourly rows from the hour of the current reading, forward `hours` hours
+function toForecastHours(data: any, hours: number): OpenMeteoForecastHour[] {
+  const hourly = data.hourly
+  const times: unknown[] = Array.isArray(hourly?.time) ? hourly.time : []
+  const currentMs = Number(data.current?.time) * 1000
+  const from = Math.floor((Number.isFinite(currentMs) ? currentMs : Date.now()) / HOUR_MS) * HOUR_MS
+  const to = from + hours * HOUR_MS
+  const forecast: OpenMeteoForecastHour[] = []
+
+  times.forEach((time, i) => {
+    // timeformat=unixtime: seconds since epoch, independent of the local offset
+    const ms = Number(time) * 1000
+    if (!Number.isFinite(ms) || ms < from || ms >= to) return
+    forecast.push({
+      time: new Date(ms).toISOString(),
+      temp: hourly.temperature_2m?.[i] ?? undefined,
+      precip_prob: hourly.precipitation_probability?.[i] ?? undefined,
+      code: hourly.weather_code?.[i] ?? undefined,
+    })
+  })
+  return forecast
+}
+
+export class OpenMeteoClient {
+  private baseUrl = 'https://api.open-meteo.com/v1'
+
+  /**
+   * Get current conditions for a coordinate, plus the next forecastHours of
+   * hourly forecast from the same request when forecastHours > 0
+   */
+  async getCurrentWeather(
+    lat: number,
+    lon: number,
+    signal?: AbortSignal,
+    forecastHours = 0
+  ): Promise<OpenMeteoCurrent | null> {
+    const forecastParams = forecastHours > 0
+      ? `&hourly=${HOURLY_VARIABLES.join(',')}&timeformat=unixtime&forecast_days=${Math.ceil(forecastHours / 24) + 1}`
+      : '&forecast_days=1'
+
+    try {
+      const response = await fetchWithRetry(
+        `${this.baseUrl}/forecast?latitude=${lat}&longitude=${lon}&current=${CURRENT_VARIABLES.join(',')}&timezone=auto${forecastParams}`,
+        { signal }
+      )
+
+      if (!response.ok) return null
+
+      const data: any = await response.json()
+      const current: Record<string, unknown> = {}
+      for (const [field, variable] of Object.entries(OPEN_METEO_VARIABLES)) {
+        current[field] = data.current?.[variable]
+      }
+
+      const reading: OpenMeteoCurrent = {
+        ...pickWeatherMeasurements(current),
+        timezone: data.timezone,
+      }
+      if (forecastHours > 0) reading.forecast = toForecastHours(data, forecastHours)
+      return reading
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * Map a WMO weather code to a short description
+ */
+export function getWeatherType(code: number): string {
+  const types: Record<number, string> = {
+    0: 'clear',
+    1: 'mostly_clear',
+    2: 'partly_cloudy',
+    3: 'overcast',
+    45: 'foggy',
+    48: 'rime_fog',
+    51: 'light_drizzle',
+    53: 'drizzle',
+    55: 'heavy_drizzle',
+    61: 'light_rain',
+    63: 'rain',
+    65: 'heavy_rain',
+    71: 'light_snow',
+    73: 'snow',
+    75: 'heavy_snow',
+    77: 'snow_grains',
+    80: 'light_showers',
+    81: 'showers',
+    82: 'heavy_showers',
+    85: 'light_snow_showers',
+    86: 'snow_showers',
+    95: 'thunderstorm',
+    96: 'thunderstorm_hail',
+    99: 'severe_thunderstorm',
+  }
+  return types[code] || 'unknown'
+}
+
+export const openMeteo = new OpenMeteoClient()
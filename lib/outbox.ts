@@ -0,0 +1,193 @@
+/**
+ * Durable local outbox for history writes that failed
+ * Unwritten records are appended as NDJSON, one file per
+ * (tick bucket, target store, record kind), and replayed on the next run.
+ * Replays are idempotent because every writer upserts on record id.
+ * Rows that fail schema validation go to a separate quarantine directory
+ * that is never replayed automatically.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import {
+  writeWaitTimesToTurso,
+  writeWeatherToTurso,
+  writeWaitTimesToSupabase,
+  writeWeatherToSupabase,
+  isDualWriteEnabled,
+} from './database-clients'
+import type { RejectedRecord } from './records'
+
+export type OutboxStore = 'turso' | 'supabase'
+export type OutboxKind = 'wait_times' | 'weather'
+// Forecasts are never queued for replay, but malformed ones are still quarantined
+export type QuarantineKind = OutboxKind | 'weather_forecast'
+
+export type OutboxEntry = {
+  tickBucket: string
+  store: OutboxStore
+  kind: OutboxKind
+  reason: string
+  enqueuedAt: string
+  records: any[]
+}
+
+export type OutboxReplayResult = {
+  file: string
+  store: OutboxStore
+  kind: OutboxKind
+  tickBucket: string
+  records: number
+  replayed: number
+  remaining: number
+  skipped: boolean
+}
+
+export function getOutboxDir(): string {
+  return process.env.COLLECTOR_OUTBOX_DIR || '.outbox'
+}
+
+function outboxFileName(tickBucket: string, store: OutboxStore, kind: OutboxKind): string {
+  // ISO timestamps contain ':' which is not portable in file names
+  return `${tickBucket.replace(/[:.]/g, '-')}.${store}.${kind}.ndjson`
+}
+
+/**
+ * Append unwritten records to the outbox; returns the number captured
+ */
+export function enqueueOutbox(
+  tickBucket: string,
+  store: OutboxStore,
+  kind: OutboxKind,
+  records: any[],
+  reason: string
+): number {
+  if (records.length === 0) return 0
+
+  const dir = getOutboxDir()
+  fs.mkdirSync(dir, { recursive: true })
+
+  const entry: OutboxEntry = {
+    tickBucket,
+    store,
+    kind,
+    reason,
+    enqueuedAt: new Date().toISOString(),
+    records,
+  }
+
+  fs.appendFileSync(path.join(dir, outboxFileName(tickBucket, store, kind)), `${JSON.stringify(entry)}\n`, 'utf8')
+  return records.length
+}
+
+/**
+ * Record rows rejected by validation, with reasons, for manual review
+ */
+export function quarantineRecords(tickBucket: string, kind: QuarantineKind, rejected: RejectedRecord[]): number {
+  if (rejected.length === 0) return 0
+
+  const dir = path.join(getOutboxDir(), 'quarantine')
+  fs.mkdirSync(dir, { recursive: true })
+
+  const file = path.join(dir, `${tickBucket.replace(/[:.]/g, '-')}.${kind}.ndjson`)
+  const quarantinedAt = new Date().toISOString()
+  const lines = rejected.map((entry) => JSON.stringify({ tickBucket, kind, quarantinedAt, ...entry }))
+  fs.appendFileSync(file, `${lines.join('\n')}\n`, 'utf8')
+  return rejected.length
+}
+
+/**
+ * Read all entries in an outbox file, skipping torn trailing lines
+ */
+export function readOutboxFile(file: string): OutboxEntry[] {
+  const entries: OutboxEntry[] = []
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (!line.trim()) continue
+    try {
+      entries.push(JSON.parse(line))
+    } catch {
+      console.error(`Skipping unreadable outbox line in ${file}`)
+    }
+  }
+  return entries
+}
+
+export function listOutboxFiles(): string[] {
+  const dir = getOutboxDir()
+  if (!fs.existsSync(dir)) return []
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.ndjson'))
+    .sort()
+    .map((name) => path.join(dir, name))
+}
+
+async function writeToStore(store: OutboxStore, kind: OutboxKind, records: any[]): Promise<string[]> {
+  if (store === 'turso') {
+    const result = kind === 'wait_times' ? await writeWaitTimesToTurso(records) : await writeWeatherToTurso(records)
+    return result.failedIds
+  }
+
+  const result = kind === 'wait_times' ? await writeWaitTimesToSupabase(records) : await writeWeatherToSupabase(records)
+  return result.failedIds
+}
+
+/**
+ * Replay every outbox file; fully written files are removed and partially
+ * written files are rewritten with only the records that still failed
+ */
+export async function drainOutbox(): Promise<OutboxReplayResult[]> {
+  const results: OutboxReplayResult[] = []
+
+  for (const file of listOutboxFiles()) {
+    const entries = readOutboxFile(file)
+    if (entries.length === 0) {
+      fs.unlinkSync(file)
+      continue
+    }
+
+    const { tickBucket, store, kind } = entries[0]
+    const byId = new Map<string, any>()
+    for (const entry of entries) {
+      for (const record of entry.records) byId.set(String(record.id), record)
+    }
+    const records = Array.from(byId.values())
+
+    if (store === 'supabase' && !isDualWriteEnabled()) {
+      results.push({ file, store, kind, tickBucket, records: records.length, replayed: 0, remaining: records.length, skipped: true })
+      continue
+    }
+
+    const failedIds = new Set(await writeToStore(store, kind, records))
+    const remaining = records.filter((record) => failedIds.has(String(record.id)))
+
+    if (remaining.length === 0) {
+      fs.unlinkSync(file)
+    } else {
+      const entry: OutboxEntry = {
+        tickBucket,
+        store,
+        kind,
+        reason: 'replay partially failed',
+        enqueuedAt: new Date().toISOString(),
+        records: remaining,
+      }
+      const tmpFile = `${file}.tmp`
+      fs.writeFileSync(tmpFile, `${JSON.stringify(entry)}\n`, 'utf8')
+      fs.renameSync(tmpFile, file)
+    }
+
+    results.push({
+      file,
+      store,
+      kind,
+      tickBucket,
+      records: records.length,
+      replayed: records.length - remaining.length,
+      remaining: remaining.length,
+      skipped: false,
+    })
+  }
+
+  return results
+}
@@ -0,0 +1,277 @@
+/**
+ * Park-mapping discovery and validation for mappings.json
+ * Pulls the Queue-Times park list and ThemeParks.wiki destinations, proposes
+ * pairs for unmapped parks by name and coordinates, and flags existing
+ * entries whose ids no longer resolve or no longer agree with each other.
+ */
+
+import { mapWithConcurrency } from './concurrency'
+import { distanceKm } from './geo'
+import { nameSimilarity, normalizeRideName } from './names'
+import { QueueTimesPark, queueTimes } from './queue-times'
+import { themeParksWiki } from './themeparks-wiki'
+
+export type ParkMappingEntry = {
+  name: string
+  queue_times_id: number
+  themeparks_id: string
+  timezone?: string
+  active_window?: string
+}
+
+export type ThemeParksPark = {
+  id: string
+  name: string
+  destination: string
+  latitude: number | null
+  longitude: number | null
+  timezone: string | null
+}
+
+export type SyncSources = {
+  queueTimesParks: QueueTimesPark[]
+  themeparksParks: ThemeParksPark[]
+  // Mapped ThemeParks.wiki ids whose entity returned 404
+  deadThemeparks: Set<string>
+  // Mapped ThemeParks.wiki ids that resolve to something other than a park
+  nonParkThemeparks: Set<string>
+  // ThemeParks.wiki ids whose entity lookup failed this run, with the error
+  unresolvedThemeparks: Map<string, string>
+}
+
+export type MappingIssueKind =
+  | 'queue_times_missing' // id not in the Queue-Times park list
+  | 'themeparks_dead' // entity 404
+  | 'themeparks_not_park' // entity exists but is not a PARK
+  | 'themeparks_unresolved' // entity lookup failed (network, 5xx); retry later
+  | 'themeparks_unlisted' // entity exists but no destination lists it
+  | 'distance' // both ids resolve but the parks are far apart
+  | 'name' // both ids resolve but the names do not resemble each other
+
+export type MappingIssue = {
+  kind: MappingIssueKind
+  name: string
+  queue_times_id: number
+  themeparks_id: string
+  detail: string
+}
+
+export type ParkMatchProposal = {
+  name: string
+  queue_times_id: number
+  themeparks_id: string
+  themeparks_name: string
+  name_score: number
+  distance_km: number | null
+  score: number
+}
+
+export type ParkSyncOptions = {
+  // Proposals below this are dropped (default 0.6)
+  minScore?: number
+  // Pairs further apart than this are never proposed and flag existing entries (default 25)
+  maxDistanceKm?: number
+  // Existing entries whose names score below this are flagged (default 0.3)
+  minNameScore?: number
+}
+
+const NAME_WEIGHT = 0.6
+const DISTANCE_WEIGHT = 0.4
+const ENTITY_FETCH_CONCURRENCY = 4
+
+// Words the two sources add or drop freely ("Disney Magic Kingdom" vs "Magic Kingdom Park")
+const PARK_NAME_NOISE = /\b(disneys?|theme|parks?|resort)\b/gi
+
+/**
+ * Name similarity for parks, ignoring operator prefixes and "park" suffixes
+ */
+export function parkNameSimilarity(a: string, b: string): number {
+  const strip = (name: string) => normalizeRideName(name).replace(PARK_NAME_NOISE, ' ').trim() || name
+  return nameSimilarity(strip(a), strip(b))
+}
+
+function parkDistance(queueTimesPark: QueueTimesPark, themeparksPark: ThemeParksPark): number | null {
+  if (queueTimesPark.latitude == null || queueTimesPark.longitude == null) return null
+  if (themeparksPark.latitude == null || themeparksPark.longitude == null) return null
+  return distanceKm(queueTimesPark.latitude, queueTimesPark.longitude, themeparksPark.latitude, themeparksPark.longitude)
+}
+
+function round(value: number, digits = 4): number {
+  return Number(value.toFixed(digits))
+}
+
+/**
+ * Fetch both sources' park lists, with ThemeParks.wiki coordinates from each
+ * park entity. Mapped ids that no destination lists are looked up directly so
+ * dead ids can be told apart from unlisted ones. A failed lookup marks only
+ * that id unresolved instead of failing the whole sync.
+ */
+export async function loadSyncSources(mappings: ParkMappingEntry[], signal?: AbortSignal): Promise<SyncSources> {
+  const [queueTimesParks, destinations] = await Promise.all([
+    queueTimes.getParks(signal),
+    themeParksWiki.getDestinations(signal),
+  ])
+  if (!queueTimesParks) throw new Error('Failed to fetch the Queue-Times park list')
+  if (!destinations) throw new Error('Failed to fetch ThemeParks.wiki destinations')
+
+  const listed = new Map<string, { name: string; destination: string }>()
+  for (const destination of destinations) {
+    for (const park of destination.parks) listed.set(park.id, { name: park.name, destination: destination.name })
+  }
+
+  const themeparksParks: ThemeParksPark[] = []
+  const deadThemeparks = new Set<string>()
+  const nonParkThemeparks = new Set<string>()
+  const unresolvedThemeparks = new Map<string, string>()
+  const ids = Array.from(new Set([...listed.keys(), ...mappings.map((mapping) => mapping.themeparks_id)]))
+
+  const entities = await mapWithConcurrency(ids, ENTITY_FETCH_CONCURRENCY, async (id) => {
+    try {
+      return await themeParksWiki.getEntity(id, signal)
+    } catch (error) {
+      unresolvedThemeparks.set(id, error instanceof Error ? error.message : String(error))
+      return null
+    }
+  })
+
+  ids.forEach((id, index) => {
+    const entity = entities[index]
+    if (unresolvedThemeparks.has(id)) return
+    if (!entity) {
+      deadThemeparks.add(id)
+      return
+    }
+    if (entity.entityType !== 'PARK') {
+      nonParkThemeparks.add(id)
+      return
+    }
+    const listing = listed.get(id)
+    if (!listing) return
+    themeparksParks.push({
+      id,
+      name: listing.name,
+      destination: listing.destination,
+      latitude: entity.location?.latitude ?? null,
+      longitude: entity.location?.longitude ?? null,
+      timezone: entity.timezone ?? null,
+    })
+  })
+
+  return { queueTimesParks, themeparksParks, deadThemeparks, nonParkThemeparks, unresolvedThemeparks }
+}
+
+/**
+ * Flag mappings whose ids are stale, dead, or point at different parks
+ */
+export function validateParkMappings(
+  mappings: ParkMappingEntry[],
+  sources: SyncSources,
+  options: ParkSyncOptions = {}
+): MappingIssue[] {
+  const maxDistanceKm = options.maxDistanceKm ?? 25
+  const minNameScore = options.minNameScore ?? 0.3
+  const queueTimesById = new Map(sources.queueTimesParks.map((park) => [park.id, park]))
+  const themeparksById = new Map(sources.themeparksParks.map((park) => [park.id, park]))
+
+  const issues: MappingIssue[] = []
+  for (const mapping of mappings) {
+    const { name, queue_times_id, themeparks_id } = mapping
+    const flag = (kind: MappingIssueKind, detail: string) =>
+      issues.push({ kind, name, queue_times_id, themeparks_id, detail })
+
+    const queueTimesPark = queueTimesById.get(queue_times_id)
+    if (!queueTimesPark) flag('queue_times_missing', 'not in the Queue-Times park list')
+
+    const themeparksPark = themeparksById.get(themeparks_id)
+    if (sources.deadThemeparks.has(themeparks_id)) flag('themeparks_dead', 'entity returned 404')
+    else if (sources.nonParkThemeparks.has(themeparks_id)) flag('themeparks_not_park', 'entity is not a PARK')
+    else if (sources.unresolvedThemeparks.has(themeparks_id)) {
+      flag('themeparks_unresolved', `entity lookup failed: ${sources.unresolvedThemeparks.get(themeparks_id)}`)
+    }
+    else if (!themeparksPark) flag('themeparks_unlisted', 'not listed under any ThemeParks.wiki destination')
+
+    if (!queueTimesPark || !themeparksPark) continue
+
+    const distance = parkDistance(queueTimesPark, themeparksPark)
+    if (distance != null && distance > maxDistanceKm) {
+      flag('distance', `${queueTimesPark.name} and ${themeparksPark.name} are ${distance.toFixed(1)} km apart`)
+    }
+    const nameScore = parkNameSimilarity(queueTimesPark.name, themeparksPark.name)
+    if (nameScore < minNameScore) {
+      flag('name', `"${queueTimesPark.name}" vs "${themeparksPark.name}" (similarity ${nameScore.toFixed(2)})`)
+    }
+  }
+  return issues
+}
+
+/**
+ * Propose pairs for parks neither side has mapped yet, best score first and
+ * one-to-one. Coordinates count only when both sides have them.
+ */
+export function proposeParkMappings(
+  mappings: ParkMappingEntry[],
+  sources: SyncSources,
+  options: ParkSyncOptions = {}
+): ParkMatchProposal[] {
+  const minScore = options.minScore ?? 0.6
+  const maxDistanceKm = options.maxDistanceKm ?? 25
+  const mappedQueueTimes = new Set(mappings.map((mapping) => mapping.queue_times_id))
+  const mappedThemeparks = new Set(mappings.map((mapping) => mapping.themeparks_id))
+
+  const scored: ParkMatchProposal[] = []
+  for (const queueTimesPark of sources.queueTimesParks) {
+    if (mappedQueueTimes.has(queueTimesPark.id)) continue
+
+    for (const themeparksPark of sources.themeparksParks) {
+      if (mappedThemeparks.has(themeparksPark.id)) continue
+
+      const distance = parkDistance(queueTimesPark, themeparksPark)
+      if (distance != null && distance > maxDistanceKm) continue
+
+      const nameScore = parkNameSimilarity(queueTimesPark.name, themeparksPark.name)
+      const score = distance == null
+        ? nameScore
+        : NAME_WEIGHT * nameScore + DISTANCE_WEIGHT * (1 - distance / maxDistanceKm)
+      if (score < minScore) continue
+
+      scored.push({
+        name: queueTimesPark.name,
+        queue_times_id: queueTimesPark.id,
+        themeparks_id: themeparksPark.id,
+        themeparks_name: themeparksPark.name,
+        name_score: round(nameScore),
+        distance_km: distance == null ? null : round(distance, 2),
+        score: round(score),
+      })
+    }
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.queue_times_id - b.queue_times_id)
+  const usedQueueTimes = new Set<number>()
+  const usedThemeparks = new Set<string>()
+  const proposals: ParkMatchProposal[] = []
+  for (const proposal of scored) {
+    if (usedQueueTimes.has(proposal.queue_times_id) || usedThemeparks.has(proposal.themeparks_id)) continue
+    usedQueueTimes.add(proposal.queue_times_id)
+    usedThemeparks.add(proposal.themeparks_id)
+    proposals.push(proposal)
+  }
+  return proposals.sort((a, b) => a.queue_times_id - b.queue_times_id)
+}
+
+/**
+ * Review diff: "+" lines are proposed entries, "!" lines flagged existing ones
+ */
+export function formatMappingsDiff(proposals: ParkMatchProposal[], issues: MappingIssue[]): string[] {
+  return [
+    ...proposals.map(
+      (proposal) =>
+        `+ ${JSON.stringify({ name: proposal.name, queue_times_id: proposal.queue_times_id, themeparks_id: proposal.themeparks_id })}` +
+        ` # ${proposal.themeparks_name}, score ${proposal.score}` +
+        (proposal.distance_km == null ? '' : `, ${proposal.distance_km} km`)
+    ),
+    ...issues.map(
+      (issue) => `! ${issue.name} (${issue.queue_times_id} -> ${issue.themeparks_id}): ${issue.kind}, ${issue.detail}`
+    ),
+  ]
+}
@@ -0,0 +1,76 @@
+/**
+ * Park operating schedules
+ * Decides whether a park is open from its ThemeParks.wiki schedule and turns
+ * schedule entries into park_schedule_history rows.
+ */
+
+import * as crypto from 'node:crypto'
+import type { ThemeParksScheduleEntry } from './themeparks-wiki'
+import type { ParkScheduleRecord } from './records'
+
+// Entry types during which guests are in the park and rides run
+const OPEN_TYPES = new Set(['OPERATING', 'EXTRA_HOURS', 'TICKETED_EVENT'])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whether a park is open at a moment, padded by bufferMinutes either side so
+ * queues are captured while rides open up and while closing-time lines clear.
+ * Returns null when the schedule has no timed entries around that moment.
+ */
+export function isParkOpenAt(
+  schedule: ThemeParksScheduleEntry[],
+  at: Date,
+  bufferMinutes = 30
+): boolean | null {
+  const atMs = at.getTime()
+  const bufferMs = bufferMinutes * 60 * 1000
+  let hasNearbyEntries = false
+
+  for (const entry of schedule) {
+    if (!OPEN_TYPES.has(entry.type) || !entry.openingTime || !entry.closingTime) continue
+
+    const opensAt = Date.parse(entry.openingTime)
+    const closesAt = Date.parse(entry.closingTime)
+    if (!Number.isFinite(opensAt) || !Number.isFinite(closesAt)) continue
+
+    // Entries within a day of `at` show the schedule covers this period
+    if (opensAt - DAY_MS <= atMs && atMs <= closesAt + DAY_MS) hasNearbyEntries = true
+    if (opensAt - bufferMs <= atMs && atMs <= closesAt + bufferMs) return true
+  }
+
+  return hasNearbyEntries ? false : null
+}
+
+/**
+ * Schedule rows for dates within a day of recordedAt; ids are stable so
+ * re-fetching the schedule every tick upserts rather than duplicates
+ */
+export function toScheduleRecords(
+  parkId: string,
+  themeparksId: string,
+  schedule: ThemeParksScheduleEntry[],
+  recordedAt: string
+): ParkScheduleRecord[] {
+  const recordedMs = Date.parse(recordedAt)
+  const fromDate = new Date(recordedMs - DAY_MS).toISOString().slice(0, 10)
+  const toDate = new Date(recordedMs + DAY_MS).toISOString().slice(0, 10)
+
+  return schedule
+    .filter((entry) => entry.date >= fromDate && entry.date <= toDate)
+    .map((entry) => ({
+      id: crypto
+        .createHash('sha256')
+        .update(`${parkId}|${entry.date}|${entry.type}|${entry.openingTime ?? ''}`)
+        .digest('hex')
+        .slice(0, 32),
+      park_id: parkId,
+      themeparks_id: themeparksId,
+      schedule_date: entry.date,
+      schedule_type: entry.type,
+      description: entry.description ?? null,
+      opening_time: entry.openingTime ?? null,
+      closing_time: entry.closingTime ?? null,
+      recorded_at: recordedAt,
+    }))
+}
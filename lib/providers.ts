@@ -0,0 +1,146 @@
+/**
+ * Data-source providers
+ * Wait-time and weather sources are registered here by name so both
+ * collectors can select them from config instead of hard-coding fetches.
+ */
+
+import { queueTimes } from './queue-times'
+import { themeParksWiki } from './themeparks-wiki'
+import { openMeteo, OpenMeteoCurrent } from './open-meteo'
+import type { QueueDetails } from './records'
+
+export interface ProviderLocation {
+  id: string
+  name: string
+  external_id: number | null
+  themeparks_id?: string | null
+  lat: number | null
+  lon: number | null
+}
+
+/**
+ * Ride row in the simple format shared by all wait-time sources
+ */
+export interface SourceRide {
+  id: string | number
+  name: string
+  wait_time: number
+  is_open: boolean
+  // Full status enum when the source has one (ThemeParks.wiki); Queue-Times only has is_open
+  status?: string
+  single_rider_time?: number
+  queue_details?: QueueDetails
+}
+
+export interface WaitTimeProvider {
+  /** Source name, also written to the `source` column of history rows */
+  readonly name: string
+  /** Whether this location has an identifier this source understands */
+  supports(location: ProviderLocation): boolean
+  getWaitTimes(location: ProviderLocation, signal?: AbortSignal): Promise<SourceRide[] | null>
+}
+
+export type WeatherReading = OpenMeteoCurrent
+
+export interface WeatherProvider {
+  readonly name: string
+  /** Current conditions; forecastHours > 0 also asks for an hourly forecast */
+  getCurrentWeather(lat: number, lon: number, signal?: AbortSignal, forecastHours?: number): Promise<WeatherReading | null>
+}
+
+const waitTimeProviders = new Map<string, WaitTimeProvider>()
+const weatherProviders = new Map<string, WeatherProvider>()
+
+/**
+ * Register (or replace) a wait-time provider
+ */
+export function registerWaitTimeProvider(provider: WaitTimeProvider): void {
+  waitTimeProviders.set(provider.name, provider)
+}
+
+/**
+ * Register (or replace) a weather provider
+ */
+export function registerWeatherProvider(provider: WeatherProvider): void {
+  weatherProviders.set(provider.name, provider)
+}
+
+export function listWaitTimeProviders(): string[] {
+  return Array.from(waitTimeProviders.keys())
+}
+
+export function listWeatherProviders(): string[] {
+  return Array.from(weatherProviders.keys())
+}
+
+/**
+ * Parse a comma-separated provider list, e.g. "queue_times,themeparks"
+ */
+export function parseProviderList(raw: string | undefined, fallback: string[]): string[] {
+  const names = (raw || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+  return names.length > 0 ? Array.from(new Set(names)) : fallback
+}
+
+/**
+ * Resolve provider names to registered wait-time providers (order preserved)
+ */
+export function resolveWaitTimeProviders(names: string[]): WaitTimeProvider[] {
+  return names.map((name) => {
+    const provider = waitTimeProviders.get(name)
+    if (!provider) {
+      throw new Error(`Unknown wait-time provider "${name}" (registered: ${listWaitTimeProviders().join(', ')})`)
+    }
+    return provider
+  })
+}
+
+/**
+ * Resolve a provider name to a registered weather provider
+ */
+export function resolveWeatherProvider(name: string): WeatherProvider {
+  const provider = weatherProviders.get(name)
+  if (!provider) {
+    throw new Error(`Unknown weather provider "${name}" (registered: ${listWeatherProviders().join(', ')})`)
+  }
+  return provider
+}
+
+// ============================================================
+// Built-in providers
+// ============================================================
+
+export const queueTimesProvider: WaitTimeProvider = {
+  name: 'queue_times',
+  supports: (location) => location.external_id != null,
+  async getWaitTimes(location, signal) {
+    if (location.external_id == null) return null
+    return queueTimes.getParkQueueTimes(location.external_id, signal)
+  },
+}
+
+export const themeParksProvider: WaitTimeProvider = {
+  name: 'themeparks',
+  supports: (location) => Boolean(location.themeparks_id),
+  async getWaitTimes(location, signal) {
+    if (!location.themeparks_id) return null
+
+    const attractions = await themeParksWiki.getParkWaitTimes(location.themeparks_id, signal)
+    if (!attractions) return null
+
+    return attractions
+      .map((attraction) => themeParksWiki.convertToSimpleFormat(attraction))
+      .filter((ride): ride is NonNullable<typeof ride> => ride !== null)
+  },
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  name: 'open_meteo',
+  getCurrentWeather: (lat, lon, signal, forecastHours) => openMeteo.getCurrentWeather(lat, lon, signal, forecastHours),
+}
+
+registerWaitTimeProvider(queueTimesProvider)
+registerWaitTimeProvider(themeParksProvider)
+registerWeatherProvider(openMeteoProvider)
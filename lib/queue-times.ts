@@ -0,0 +1,92 @@
+/**
+ * Queue-Times.com API Client
+ * Free public API for theme park queue times
+ * Documentation: https://queue-times.com/pages/api
+ */
+
+import { fetchWithRetry } from './http'
+
+export interface QueueTimesRide {
+  id: number
+  name: string
+  is_open: boolean
+  wait_time: number
+  last_updated?: string
+  // Land the ride is listed under; absent for rides outside any land
+  land?: string
+}
+
+export interface QueueTimesPark {
+  id: number
+  name: string
+  // Operator group the park is listed under
+  company: string
+  latitude: number | null
+  longitude: number | null
+  timezone: string | null
+}
+
+export class QueueTimesClient {
+  private baseUrl = 'https://queue-times.com'
+
+  /**
+   * List every park, flattened across operator groups
+   */
+  async getParks(signal?: AbortSignal): Promise<QueueTimesPark[] | null> {
+    try {
+      const response = await fetchWithRetry(`${this.baseUrl}/parks.json`, { signal })
+      if (!response.ok) return null
+
+      const data: any = await response.json()
+      const coordinate = (value: unknown) => {
+        const parsed = Number.parseFloat(String(value))
+        return Number.isFinite(parsed) ? parsed : null
+      }
+
+      return (Array.isArray(data) ? data : []).flatMap((company: any) =>
+        (Array.isArray(company.parks) ? company.parks : []).map((park: any) => ({
+          id: Number(park.id),
+          name: String(park.name),
+          company: String(company.name),
+          latitude: coordinate(park.latitude),
+          longitude: coordinate(park.longitude),
+          timezone: park.timezone ? String(park.timezone) : null,
+        }))
+      )
+    } catch (error) {
+      console.error('Queue-Times error fetching parks:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get current queue times for a park, flattened across lands
+   */
+  async getParkQueueTimes(parkId: number, signal?: AbortSignal): Promise<QueueTimesRide[] | null> {
+    try {
+      const response = await fetchWithRetry(`${this.baseUrl}/parks/${parkId}/queue_times.json`, { signal })
+
+      if (!response.ok) return null
+
+      const data: any = await response.json()
+
+      const allItems: QueueTimesRide[] = []
+      if (Array.isArray(data.rides)) allItems.push(...data.rides)
+
+      if (Array.isArray(data.lands)) {
+        data.lands.forEach((land: any) => {
+          if (Array.isArray(land.rides)) {
+            allItems.push(...land.rides.map((ride: QueueTimesRide) => ({ ...ride, land: land.name })))
+          }
+        })
+      }
+
+      return Array.from(new Map(allItems.map((item) => [item.id, item])).values())
+    } catch (error) {
+      console.error(`Queue-Times error for park ${parkId}:`, error)
+      return null
+    }
+  }
+}
+
+export const queueTimes = new QueueTimesClient()
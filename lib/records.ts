@@ -0,0 +1,299 @@
+/**
+ * History record schemas
+ * Shared shapes for wait-time and weather rows plus runtime validation
+ * applied before anything is written to Turso or Supabase.
+ */
+
+/**
+ * Queue detail beyond standby, from ThemeParks.wiki: single rider, free and
+ * paid return times (Lightning Lane) and virtual-queue boarding groups
+ */
+export interface QueueDetails {
+  single_rider_wait?: number | null
+  return_time_state?: string | null
+  return_time_start?: string | null
+  return_time_end?: string | null
+  paid_return_time_state?: string | null
+  paid_return_time_start?: string | null
+  paid_return_time_end?: string | null
+  paid_return_time_price?: number | null // minor currency units
+  paid_return_time_currency?: string | null
+  boarding_group_state?: string | null
+  boarding_group_current_start?: number | null
+  boarding_group_current_end?: number | null
+  boarding_group_next_allocation?: string | null
+  boarding_group_estimated_wait?: number | null
+}
+
+export const QUEUE_DETAIL_FIELDS: Array<keyof QueueDetails> = [
+  'single_rider_wait',
+  'return_time_state',
+  'return_time_start',
+  'return_time_end',
+  'paid_return_time_state',
+  'paid_return_time_start',
+  'paid_return_time_end',
+  'paid_return_time_price',
+  'paid_return_time_currency',
+  'boarding_group_state',
+  'boarding_group_current_start',
+  'boarding_group_current_end',
+  'boarding_group_next_allocation',
+  'boarding_group_estimated_wait',
+]
+
+export interface WaitTimeRecord extends QueueDetails {
+  id: string
+  item_id: string // ride metadata id
+  park_id: string // location id
+  wait_time: number
+  is_open: boolean
+  status?: string | null
+  source: string
+  recorded_at: string
+  queue_times_wait?: number | null
+  themeparks_wait?: number | null
+  confidence?: number | null
+  park_open?: boolean | null // from the park schedule; null when unknown
+  local_date?: string | null // park-local YYYY-MM-DD; null when the timezone is unknown
+  local_hour?: number | null // park-local 0-23
+}
+
+// Weather measurements, by park_weather_history column. Providers map their
+// variables onto these names (see OPEN_METEO_VARIABLES), and the writers and
+// validation iterate this list, so a new measurement is added here, there,
+// and in a migration.
+export const WEATHER_MEASUREMENT_FIELDS = [
+  'temperature',
+  'feels_like',
+  'precipitation',
+  'precipitation_probability',
+  'humidity',
+  'wind_speed',
+  'wind_direction',
+  'wind_gusts',
+  'uv_index',
+  'weather_code',
+  'cloud_cover',
+  'visibility',
+  'pressure',
+] as const
+
+export type WeatherMeasurementField = (typeof WEATHER_MEASUREMENT_FIELDS)[number]
+
+export type WeatherMeasurements = Record<WeatherMeasurementField, number | null>
+
+/**
+ * Every measurement field from a provider reading or record; anything
+ * missing or non-finite becomes null (0 stays 0)
+ */
+export function pickWeatherMeasurements(source: Partial<Record<WeatherMeasurementField, unknown>>): WeatherMeasurements {
+  const measurements = {} as WeatherMeasurements
+  for (const field of WEATHER_MEASUREMENT_FIELDS) {
+    const value = source[field]
+    measurements[field] = typeof value === 'number' && Number.isFinite(value) ? value : null
+  }
+  return measurements
+}
+
+export interface WeatherRecord extends WeatherMeasurements {
+  id: string
+  location_id: string
+  weather_type: string
+  local_date?: string | null
+  local_hour?: number | null
+  // Location whose coordinates were fetched when weather is shared nearby
+  source_location_id?: string | null
+  recorded_at: string
+  source: string
+}
+
+export interface WeatherForecastRecord {
+  id: string // stable per location, issue hour and forecast hour
+  location_id: string
+  issued_at: string // collection hour the forecast was fetched in
+  forecast_time: string // start of the forecast hour (UTC)
+  lead_hours: number // forecast_time - issued_at, in hours
+  temperature: number | null
+  precipitation_probability: number | null
+  weather_code: number | null
+  weather_type: string
+  local_date?: string | null // park-local date and hour of forecast_time
+  local_hour?: number | null
+  source_location_id?: string | null
+  source: string
+}
+
+export interface ParkScheduleRecord {
+  id: string // stable per park, date, type and opening time
+  park_id: string // location id
+  themeparks_id: string
+  schedule_date: string // park-local YYYY-MM-DD
+  schedule_type: string
+  description: string | null
+  opening_time: string | null
+  closing_time: string | null
+  recorded_at: string
+}
+
+export type RejectedRecord = {
+  record: unknown
+  reasons: string[]
+}
+
+export type ValidationResult<T> = {
+  valid: T[]
+  rejected: RejectedRecord[]
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isTimestamp(value: unknown): boolean {
+  return isNonEmptyString(value) && Number.isFinite(Date.parse(value))
+}
+
+function isNullableNumber(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'number' && Number.isFinite(value))
+}
+
+function checkNullableStrings(record: Record<string, any>, fields: string[], reasons: string[]) {
+  for (const field of fields) {
+    if (record[field] != null && !isNonEmptyString(record[field])) reasons.push(`${field} must be a string or null`)
+  }
+}
+
+function checkNullableTimestamps(record: Record<string, any>, fields: string[], reasons: string[]) {
+  for (const field of fields) {
+    if (record[field] != null && !isTimestamp(record[field])) reasons.push(`${field} must be an ISO timestamp or null`)
+  }
+}
+
+function checkLocalTime(record: Record<string, any>, reasons: string[]) {
+  if (record.local_date != null && !(typeof record.local_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(record.local_date))) {
+    reasons.push('local_date must be YYYY-MM-DD or null')
+  }
+  if (record.local_hour != null && !(Number.isInteger(record.local_hour) && record.local_hour >= 0 && record.local_hour <= 23)) {
+    reasons.push('local_hour must be an integer 0-23 or null')
+  }
+}
+
+function checkRequiredStrings(record: Record<string, any>, fields: string[], reasons: string[]) {
+  for (const field of fields) {
+    if (!isNonEmptyString(record[field])) reasons.push(`${field} must be a non-empty string`)
+  }
+}
+
+function checkNullableNumbers(record: Record<string, any>, fields: string[], reasons: string[]) {
+  for (const field of fields) {
+    if (!isNullableNumber(record[field])) reasons.push(`${field} must be a finite number or null`)
+  }
+}
+
+/**
+ * Return the reasons a wait-time row is malformed (empty when valid)
+ */
+export function checkWaitTimeRecord(record: unknown): string[] {
+  if (!record || typeof record !== 'object') return ['record must be an object']
+
+  const row = record as Record<string, any>
+  const reasons: string[] = []
+
+  checkRequiredStrings(row, ['id', 'item_id', 'park_id', 'source'], reasons)
+  if (typeof row.wait_time !== 'number' || !Number.isFinite(row.wait_time) || row.wait_time < 0) {
+    reasons.push('wait_time must be a non-negative number')
+  }
+  if (typeof row.is_open !== 'boolean') reasons.push('is_open must be a boolean')
+  if (row.park_open != null && typeof row.park_open !== 'boolean') reasons.push('park_open must be a boolean or null')
+  if (!isTimestamp(row.recorded_at)) reasons.push('recorded_at must be an ISO timestamp')
+  checkLocalTime(row, reasons)
+  checkNullableStrings(
+    row,
+    ['status', 'return_time_state', 'paid_return_time_state', 'paid_return_time_currency', 'boarding_group_state'],
+    reasons
+  )
+  checkNullableNumbers(
+    row,
+    ['queue_times_wait', 'themeparks_wait', 'confidence', 'single_rider_wait', 'paid_return_time_price',
+     'boarding_group_current_start', 'boarding_group_current_end', 'boarding_group_estimated_wait'],
+    reasons
+  )
+  checkNullableTimestamps(
+    row,
+    ['return_time_start', 'return_time_end', 'paid_return_time_start', 'paid_return_time_end',
+     'boarding_group_next_allocation'],
+    reasons
+  )
+  if (typeof row.confidence === 'number' && (row.confidence < 0 || row.confidence > 1)) {
+    reasons.push('confidence must be between 0 and 1')
+  }
+
+  return reasons
+}
+
+/**
+ * Return the reasons a weather row is malformed (empty when valid)
+ */
+export function checkWeatherRecord(record: unknown): string[] {
+  if (!record || typeof record !== 'object') return ['record must be an object']
+
+  const row = record as Record<string, any>
+  const reasons: string[] = []
+
+  checkRequiredStrings(row, ['id', 'location_id', 'weather_type', 'source'], reasons)
+  checkNullableNumbers(row, [...WEATHER_MEASUREMENT_FIELDS], reasons)
+  if (!isTimestamp(row.recorded_at)) reasons.push('recorded_at must be an ISO timestamp')
+  checkLocalTime(row, reasons)
+  checkNullableStrings(row, ['source_location_id'], reasons)
+
+  return reasons
+}
+
+/**
+ * Return the reasons a weather forecast row is malformed (empty when valid)
+ */
+export function checkWeatherForecastRecord(record: unknown): string[] {
+  if (!record || typeof record !== 'object') return ['record must be an object']
+
+  const row = record as Record<string, any>
+  const reasons: string[] = []
+
+  checkRequiredStrings(row, ['id', 'location_id', 'weather_type', 'source'], reasons)
+  if (!isTimestamp(row.issued_at)) reasons.push('issued_at must be an ISO timestamp')
+  if (!isTimestamp(row.forecast_time)) reasons.push('forecast_time must be an ISO timestamp')
+  if (!Number.isInteger(row.lead_hours) || row.lead_hours < 0) reasons.push('lead_hours must be a non-negative integer')
+  checkNullableNumbers(row, ['temperature', 'precipitation_probability', 'weather_code'], reasons)
+  checkLocalTime(row, reasons)
+  checkNullableStrings(row, ['source_location_id'], reasons)
+
+  return reasons
+}
+
+function partition<T>(records: unknown[], check: (record: unknown) => string[]): ValidationResult<T> {
+  const valid: T[] = []
+  const rejected: RejectedRecord[] = []
+
+  for (const record of records) {
+    const reasons = check(record)
+    if (reasons.length === 0) {
+      valid.push(record as T)
+    } else {
+      rejected.push({ record, reasons })
+    }
+  }
+
+  return { valid, rejected }
+}
+
+export function validateWaitTimeRecords(records: unknown[]): ValidationResult<WaitTimeRecord> {
+  return partition<WaitTimeRecord>(records, checkWaitTimeRecord)
+}
+
+export function validateWeatherRecords(records: unknown[]): ValidationResult<WeatherRecord> {
+  return partition<WeatherRecord>(records, checkWeatherRecord)
+}
+
+export function validateWeatherForecastRecords(records: unknown[]): ValidationResult<WeatherForecastRecord> {
+  return partition<WeatherForecastRecord>(records, checkWeatherForecastRecord)
+}
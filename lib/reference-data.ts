@@ -0,0 +1,446 @@
+/**
+ * Reference data loading
+ * Locations, ride metadata, park mappings and ride mappings are loaded
+ * together from Supabase, or from a local JSON fixture when running in local
+ * mode. Park mappings come from Supabase park_mappings with mappings.json as
+ * the seed and fallback. Loads are cached in-process and, with
+ * REFERENCE_CACHE_FILE, on disk so a Supabase outage can fall back to the
+ * last good snapshot.
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { getSupabaseClient, isLocalMode } from './database-clients'
+import { parseActiveWindow } from './local-time'
+
+export type ReferenceLocation = {
+  id: string
+  name: string
+  external_id: number | null
+  lat: number | null
+  lon: number | null
+  // ThemeParks.wiki park entity id from the park mapping, null when unmapped
+  themeparks_id: string | null
+  // Park mapping overrides; timezones are otherwise learned at collection time
+  timezone: string | null
+  active_window: string | null
+}
+
+export type ParkMapping = {
+  themeparks_id: string
+  timezone: string | null
+  active_window: string | null
+  // Supabase wins when both stores have the park
+  source: 'supabase' | 'mappings_file'
+}
+
+export type ReferenceData = {
+  source: 'supabase' | 'fixture' | 'cache'
+  loadedAt: string
+  locations: ReferenceLocation[]
+  // Queue-Times ride id -> ride metadata id (empty with passthrough metadata)
+  metadata: Map<string, string>
+  passthroughMetadata: boolean
+  // Queue-Times park id -> park mapping
+  parkMappings: Map<number, ParkMapping>
+  // Queue-Times park ids whose Supabase and mappings.json entries disagree
+  parkMappingConflicts: number[]
+  // Queue-Times ride id -> ThemeParks.wiki attraction id
+  rideMappings: Map<string, string>
+  // Resolve a source ride id to a metadata id (undefined when unmapped)
+  resolveRideId(externalId: string | number): string | undefined
+}
+
+export type ReferenceIssueKind =
+  | 'park_mapping_conflict' // Supabase and mappings.json disagree; Supabase wins
+  | 'park_mapping_orphan' // mapped Queue-Times park has no location
+  | 'duplicate_park_mapping' // several parks share one ThemeParks.wiki park
+  | 'ride_mapping_unresolved' // mapped Queue-Times ride has no metadata row
+  | 'duplicate_ride_mapping' // several rides share one ThemeParks.wiki attraction
+
+export type ReferenceIssue = {
+  kind: ReferenceIssueKind
+  key: string
+  detail: string
+}
+
+export type ReferenceReport = {
+  source: ReferenceData['source']
+  loadedAt: string
+  locations: number
+  // Locations polled from both Queue-Times and ThemeParks.wiki
+  dualSourced: number
+  // Names of locations with a Queue-Times id but no park mapping
+  singleSourced: string[]
+  parkMappings: Record<ParkMapping['source'], number>
+  rideMappings: number
+  issues: ReferenceIssue[]
+}
+
+type ReferenceFixture = {
+  locations: Array<Pick<ReferenceLocation, 'id' | 'name' | 'external_id' | 'lat' | 'lon'>>
+  // "passthrough" stores every source ride under its own id (no curated metadata needed)
+  metadata: Array<{ id: string | number; external_id: string | number }> | 'passthrough'
+  ride_mappings?: Array<{ queue_times_id: string | number; themeparks_id: string }>
+}
+
+type ReferenceSnapshot = {
+  savedAt: string
+  locations: any[]
+  metadata: Array<[string, string]> | 'passthrough'
+  parkMappings: Array<[number, ParkMapping]>
+  parkMappingConflicts: number[]
+  rideMappings: Array<[string, string]>
+}
+
+export const DEFAULT_REFERENCE_FIXTURE = 'fixtures/reference-data.json'
+export const DEFAULT_PARK_MAPPINGS_FILE = 'mappings.json'
+
+function envMinutes(name: string, fallback: number): number {
+  const parsed = Number.parseInt(process.env[name] || '', 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+function toParkMapping(row: any, source: ParkMapping['source']): ParkMapping {
+  return {
+    themeparks_id: String(row.themeparks_id),
+    timezone: row.timezone ? String(row.timezone) : null,
+    active_window: row.active_window ? String(row.active_window) : null,
+    source,
+  }
+}
+
+/**
+ * Queue-Times park id -> park mapping, from PARK_MAPPINGS_FILE
+ */
+export function loadParkMappings(file = process.env.PARK_MAPPINGS_FILE || DEFAULT_PARK_MAPPINGS_FILE): Map<number, ParkMapping> {
+  if (!fs.existsSync(file)) return new Map()
+  const mappings = JSON.parse(fs.readFileSync(file, 'utf8'))
+  return new Map(
+    (mappings.parks ?? []).map((park: any) => [Number(park.queue_times_id), toParkMapping(park, 'mappings_file')])
+  )
+}
+
+/**
+ * Supabase rows over mappings.json entries; parks only in the file fill the gaps
+ */
+export function mergeParkMappings(
+  supabaseRows: any[],
+  fileMappings: Map<number, ParkMapping>
+): { parkMappings: Map<number, ParkMapping>; conflicts: number[] } {
+  const parkMappings = new Map(fileMappings)
+  const conflicts: number[] = []
+  for (const row of supabaseRows) {
+    const queueTimesId = Number(row.queue_times_id)
+    const mapping = toParkMapping(row, 'supabase')
+    const fromFile = fileMappings.get(queueTimesId)
+    if (fromFile && fromFile.themeparks_id !== mapping.themeparks_id) conflicts.push(queueTimesId)
+    parkMappings.set(queueTimesId, mapping)
+  }
+  return { parkMappings, conflicts: conflicts.sort((a, b) => a - b) }
+}
+
+// A malformed park window is dropped so the park falls back to COLLECTOR_ACTIVE_WINDOW
+function checkedActiveWindow(raw: string | null | undefined, parkName: string, invalid: string[]): string | null {
+  if (!raw) return null
+  try {
+    parseActiveWindow(raw)
+    return raw
+  } catch {
+    invalid.push(`${parkName} ("${raw}")`)
+    return null
+  }
+}
+
+function toReferenceData(
+  source: ReferenceData['source'],
+  locations: any[],
+  metadata: Map<string, string> | 'passthrough',
+  parkMappings: Map<number, ParkMapping>,
+  parkMappingConflicts: number[],
+  rideMappings: Map<string, string>,
+  loadedAt = new Date().toISOString()
+): ReferenceData {
+  const invalidWindows: string[] = []
+  const reference: ReferenceData = {
+    source,
+    loadedAt,
+    locations: locations.map((location) => {
+      const externalId = location.external_id != null ? Number(location.external_id) : null
+      const mapping = externalId != null ? parkMappings.get(externalId) : undefined
+      return {
+        id: String(location.id),
+        name: String(location.name),
+        external_id: externalId,
+        lat: location.lat != null ? Number(location.lat) : null,
+        lon: location.lon != null ? Number(location.lon) : null,
+        themeparks_id: mapping?.themeparks_id ?? null,
+        timezone: mapping?.timezone ?? null,
+        active_window: checkedActiveWindow(mapping?.active_window, String(location.name), invalidWindows),
+      }
+    }),
+    metadata: metadata === 'passthrough' ? new Map() : metadata,
+    passthroughMetadata: metadata === 'passthrough',
+    parkMappings,
+    parkMappingConflicts,
+    rideMappings,
+    resolveRideId:
+      metadata === 'passthrough'
+        ? (externalId) => String(externalId)
+        : (externalId) => metadata.get(String(externalId)),
+  }
+  if (invalidWindows.length > 0) {
+    console.warn(`⚠️  Ignoring invalid active_window for ${invalidWindows.join(', ')}; using COLLECTOR_ACTIVE_WINDOW`)
+  }
+  return reference
+}
+
+function loadFixture(file: string): ReferenceData {
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as ReferenceFixture
+
+  const metadata =
+    fixture.metadata === 'passthrough'
+      ? 'passthrough'
+      : new Map(fixture.metadata.map((m) => [String(m.external_id), String(m.id)]))
+  const rideMappings = new Map(
+    (fixture.ride_mappings ?? []).map((r) => [String(r.queue_times_id), String(r.themeparks_id)])
+  )
+
+  return toReferenceData('fixture', fixture.locations, metadata, loadParkMappings(), [], rideMappings)
+}
+
+/**
+ * True for a PostgREST error saying the table does not exist (Postgres
+ * 42P01, or PGRST205 when the schema cache has no such table)
+ */
+function isMissingTable(error: { code?: string; message?: string }): boolean {
+  if (error.code === '42P01' || error.code === 'PGRST205') return true
+  return /does not exist|could not find the table/i.test(error.message ?? '')
+}
+
+async function loadFromSupabase(): Promise<ReferenceData> {
+  const supabase = getSupabaseClient()
+
+  const { data: locations, error: locError } = await supabase
+    .from('locations')
+    .select('id, name, external_id, lat, lon')
+    .order('name')
+
+  if (locError || !locations) {
+    throw new Error(`Supabase error fetching locations: ${locError?.message ?? 'unknown error'}`)
+  }
+
+  const { data: metadata, error: metaError } = await supabase
+    .from('metadata')
+    .select('id, external_id')
+
+  if (metaError) {
+    throw new Error(`Supabase error fetching metadata: ${metaError.message}`)
+  }
+
+  // Park and ride mappings are optional; environments without the tables fall
+  // back to mappings.json and no ride mappings respectively. Any other error
+  // fails the load so a partial result never reaches the snapshot.
+  const { data: parkMappingRows, error: parkMappingError } = await supabase
+    .from('park_mappings')
+    .select('queue_times_id, themeparks_id, timezone, active_window')
+
+  if (parkMappingError && !isMissingTable(parkMappingError)) {
+    throw new Error(`Supabase error fetching park_mappings: ${parkMappingError.message}`)
+  }
+
+  const { data: rideMappings, error: rideMappingError } = await supabase
+    .from('ride_mappings')
+    .select('queue_times_id, themeparks_id')
+
+  if (rideMappingError && !isMissingTable(rideMappingError)) {
+    throw new Error(`Supabase error fetching ride_mappings: ${rideMappingError.message}`)
+  }
+
+  const { parkMappings, conflicts } = mergeParkMappings(parkMappingRows ?? [], loadParkMappings())
+
+  return toReferenceData(
+    'supabase',
+    locations,
+    new Map((metadata ?? []).map((m: any) => [String(m.external_id), String(m.id)])),
+    parkMappings,
+    conflicts,
+    new Map((rideMappings ?? []).map((r: any) => [String(r.queue_times_id), String(r.themeparks_id)]))
+  )
+}
+
+// ============================================================
+// Caching
+// ============================================================
+
+let cached: ReferenceData | null = null
+
+function ageMinutes(iso: string): number {
+  return (Date.now() - new Date(iso).getTime()) / 60_000
+}
+
+/**
+ * Write a Supabase load to the snapshot file used as cache and outage fallback
+ */
+export function saveReferenceSnapshot(file: string, reference: ReferenceData): void {
+  const snapshot: ReferenceSnapshot = {
+    savedAt: reference.loadedAt,
+    locations: reference.locations,
+    metadata: reference.passthroughMetadata ? 'passthrough' : Array.from(reference.metadata),
+    parkMappings: Array.from(reference.parkMappings),
+    parkMappingConflicts: reference.parkMappingConflicts,
+    rideMappings: Array.from(reference.rideMappings),
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, `${JSON.stringify(snapshot)}\n`, 'utf8')
+}
+
+/**
+ * Read a snapshot no older than maxAgeMinutes; null when missing, stale or unreadable
+ */
+export function readReferenceSnapshot(file: string, maxAgeMinutes: number): ReferenceData | null {
+  if (!fs.existsSync(file)) return null
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(file, 'utf8')) as ReferenceSnapshot
+    if (!(ageMinutes(snapshot.savedAt) <= maxAgeMinutes)) return null
+    return toReferenceData(
+      'cache',
+      snapshot.locations,
+      snapshot.metadata === 'passthrough' ? 'passthrough' : new Map(snapshot.metadata),
+      new Map(snapshot.parkMappings),
+      snapshot.parkMappingConflicts,
+      new Map(snapshot.rideMappings),
+      snapshot.savedAt
+    )
+  } catch {
+    return null
+  }
+}
+
+export function clearReferenceCache(): void {
+  cached = null
+}
+
+/**
+ * Load reference data from the local fixture in local mode, otherwise
+ * Supabase. Results are reused for REFERENCE_CACHE_TTL_MINUTES (default 10;
+ * 0 disables caching); pass refresh to force a reload.
+ */
+export async function loadReferenceData(options: { refresh?: boolean } = {}): Promise<ReferenceData> {
+  const ttlMinutes = envMinutes('REFERENCE_CACHE_TTL_MINUTES', 10)
+  if (!options.refresh && cached && ageMinutes(cached.loadedAt) < ttlMinutes) return cached
+
+  if (isLocalMode()) {
+    cached = loadFixture(process.env.LOCAL_REFERENCE_FILE || DEFAULT_REFERENCE_FIXTURE)
+    return cached
+  }
+
+  const cacheFile = process.env.REFERENCE_CACHE_FILE
+  if (cacheFile && !options.refresh && ttlMinutes > 0) {
+    const fresh = readReferenceSnapshot(cacheFile, ttlMinutes)
+    if (fresh) return (cached = fresh)
+  }
+
+  try {
+    cached = await loadFromSupabase()
+  } catch (error) {
+    const fallback = cacheFile
+      ? readReferenceSnapshot(cacheFile, envMinutes('REFERENCE_CACHE_MAX_STALE_MINUTES', 24 * 60))
+      : null
+    if (!fallback) throw error
+    console.warn(`⚠️  Supabase reference data unavailable, using snapshot from ${fallback.loadedAt}:`, error)
+    return (cached = fallback)
+  }
+
+  if (cacheFile) {
+    try {
+      saveReferenceSnapshot(cacheFile, cached)
+    } catch (error) {
+      console.warn(`⚠️  Could not write reference snapshot ${cacheFile}:`, error)
+    }
+  }
+  return cached
+}
+
+// ============================================================
+// Consistency report
+// ============================================================
+
+/**
+ * Cross-check locations, metadata and both mapping levels
+ */
+export function checkReferenceConsistency(reference: ReferenceData): ReferenceReport {
+  const issues: ReferenceIssue[] = []
+
+  for (const queueTimesId of reference.parkMappingConflicts) {
+    const mapping = reference.parkMappings.get(queueTimesId)
+    issues.push({
+      kind: 'park_mapping_conflict',
+      key: String(queueTimesId),
+      detail: `Supabase park_mappings (${mapping?.themeparks_id}) disagrees with mappings.json; using Supabase`,
+    })
+  }
+
+  const locatedParks = new Set(reference.locations.map((location) => location.external_id))
+  for (const [queueTimesId, mapping] of reference.parkMappings) {
+    if (!locatedParks.has(queueTimesId)) {
+      issues.push({
+        kind: 'park_mapping_orphan',
+        key: String(queueTimesId),
+        detail: `no location with external_id ${queueTimesId} (${mapping.source})`,
+      })
+    }
+  }
+
+  const duplicates = (pairs: Array<[string, string]>) => {
+    const byTarget = new Map<string, string[]>()
+    for (const [from, to] of pairs) byTarget.set(to, [...(byTarget.get(to) ?? []), from])
+    return Array.from(byTarget).filter(([, froms]) => froms.length > 1)
+  }
+
+  for (const [themeparksId, queueTimesIds] of duplicates(
+    Array.from(reference.parkMappings).map(([queueTimesId, mapping]) => [String(queueTimesId), mapping.themeparks_id])
+  )) {
+    issues.push({
+      kind: 'duplicate_park_mapping',
+      key: themeparksId,
+      detail: `mapped from Queue-Times parks ${queueTimesIds.join(', ')}`,
+    })
+  }
+
+  if (!reference.passthroughMetadata) {
+    for (const queueTimesId of reference.rideMappings.keys()) {
+      if (!reference.metadata.has(queueTimesId)) {
+        issues.push({
+          kind: 'ride_mapping_unresolved',
+          key: queueTimesId,
+          detail: `Queue-Times ride ${queueTimesId} has no metadata row, so its blended waits are dropped`,
+        })
+      }
+    }
+  }
+
+  for (const [themeparksId, queueTimesIds] of duplicates(Array.from(reference.rideMappings))) {
+    issues.push({
+      kind: 'duplicate_ride_mapping',
+      key: themeparksId,
+      detail: `mapped from Queue-Times rides ${queueTimesIds.join(', ')}`,
+    })
+  }
+
+  const parkMappingCounts = { supabase: 0, mappings_file: 0 }
+  for (const mapping of reference.parkMappings.values()) parkMappingCounts[mapping.source] += 1
+
+  return {
+    source: reference.source,
+    loadedAt: reference.loadedAt,
+    locations: reference.locations.length,
+    dualSourced: reference.locations.filter((location) => location.themeparks_id).length,
+    singleSourced: reference.locations
+      .filter((location) => location.external_id != null && !location.themeparks_id)
+      .map((location) => location.name),
+    parkMappings: parkMappingCounts,
+    rideMappings: reference.rideMappings.size,
+    issues,
+  }
+}
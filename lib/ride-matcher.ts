@@ -0,0 +1,368 @@
+/**
+ * Ride-mapping discovery
+ * Proposes Queue-Times <-> ThemeParks.wiki ride pairs within a park from
+ * normalized name similarity, land/entity-type context and the correlation
+ * of both sources' waits over time. Candidates land in the Turso
+ * ride_mapping_candidates review table; high scorers are accepted
+ * automatically and published to Supabase ride_mappings.
+ */
+
+import type { Client } from '@libsql/client'
+import { nameSimilarity } from './names'
+
+export type MatchableRide = {
+  id: string
+  name: string
+  // Queue-Times land, when listed under one
+  land?: string | null
+  // ThemeParks.wiki entity type (ATTRACTION, SHOW, ...)
+  entity_type?: string | null
+}
+
+export type RideSourceSample = {
+  park_id: string
+  source: 'queue_times' | 'themeparks'
+  source_ride_id: string
+  recorded_at: string
+  wait_time: number | null
+  is_open: boolean
+}
+
+// superseded: lost to a better accepted pair for the same Queue-Times ride
+export type CandidateStatus = 'pending' | 'auto_accepted' | 'accepted' | 'rejected' | 'superseded'
+
+export type RideMatchCandidate = {
+  park_id: string
+  queue_times_id: string
+  themeparks_id: string
+  queue_times_name: string
+  themeparks_name: string
+  name_score: number
+  context_score: number
+  correlation_score: number | null // null until enough paired open samples exist
+  correlation_samples: number
+  score: number
+  status: CandidateStatus
+}
+
+export type AcceptedCandidate = {
+  queue_times_id: string
+  themeparks_id: string
+  status: 'accepted' | 'auto_accepted'
+  score: number
+}
+
+export type ProposeRideMatchesOptions = {
+  // Pairs scoring below this are not proposed (default 0.5)
+  minScore?: number
+  // Pairs scoring at least this are accepted without review (default 0.9)
+  autoAcceptScore?: number
+  // Paired open samples needed before correlation counts (default 24)
+  minCorrelationSamples?: number
+  // Pairs a reviewer already rejected, as `${queue_times_id}|${themeparks_id}`
+  rejected?: Set<string>
+}
+
+// Component weights; without correlation the other two are rescaled to sum to 1
+const NAME_WEIGHT = 0.6
+const CORRELATION_WEIGHT = 0.25
+const CONTEXT_WEIGHT = 0.15
+
+const SHOW_LAND = /\b(shows?|entertainment|parades?|fireworks|nighttime)\b/i
+
+/**
+ * Land/entity-type agreement: Queue-Times show lands should pair with
+ * ThemeParks.wiki SHOW entities and ride lands with ATTRACTION. 0.5 when
+ * either side carries no context.
+ */
+export function contextScore(queueTimesRide: MatchableRide, themeparksRide: MatchableRide): number {
+  const entityType = (themeparksRide.entity_type || '').toUpperCase()
+  if (!queueTimesRide.land || !entityType) return 0.5
+  const showLand = SHOW_LAND.test(queueTimesRide.land)
+  if (entityType === 'SHOW') return showLand ? 1 : 0.25
+  if (entityType === 'ATTRACTION') return showLand ? 0 : 1
+  return 0.5
+}
+
+/**
+ * Pearson correlation of paired waits; null with too few pairs or no variance
+ */
+export function waitCorrelation(pairs: Array<[number, number]>, minSamples = 24): number | null {
+  if (pairs.length < minSamples) return null
+  const n = pairs.length
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY)
+    varianceX += (x - meanX) ** 2
+    varianceY += (y - meanY) ** 2
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+/**
+ * Open waits per sample tick for one source ride
+ */
+function openWaits(samples: RideSourceSample[]): Map<string, number> {
+  const waits = new Map<string, number>()
+  for (const sample of samples) {
+    if (sample.is_open && sample.wait_time != null) waits.set(sample.recorded_at, sample.wait_time)
+  }
+  return waits
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4))
+}
+
+/**
+ * Score every unmapped Queue-Times x ThemeParks.wiki pair in a park and keep
+ * the best one-to-one assignment (greedy by score)
+ */
+export function proposeRideMatches(
+  parkId: string,
+  queueTimesRides: MatchableRide[],
+  themeparksRides: MatchableRide[],
+  samples: RideSourceSample[] = [],
+  options: ProposeRideMatchesOptions = {}
+): RideMatchCandidate[] {
+  const minScore = options.minScore ?? 0.5
+  const autoAcceptScore = options.autoAcceptScore ?? 0.9
+  const minCorrelationSamples = options.minCorrelationSamples ?? 24
+  const rejected = options.rejected ?? new Set<string>()
+
+  const seriesBySource = new Map<string, RideSourceSample[]>()
+  for (const sample of samples) {
+    const key = `${sample.source}|${sample.source_ride_id}`
+    const series = seriesBySource.get(key)
+    if (series) series.push(sample)
+    else seriesBySource.set(key, [sample])
+  }
+  const waitsFor = (source: string, id: string) => openWaits(seriesBySource.get(`${source}|${id}`) ?? [])
+
+  const scored: RideMatchCandidate[] = []
+  for (const queueTimesRide of queueTimesRides) {
+    const queueTimesWaits = waitsFor('queue_times', queueTimesRide.id)
+
+    for (const themeparksRide of themeparksRides) {
+      if (rejected.has(`${queueTimesRide.id}|${themeparksRide.id}`)) continue
+
+      const nameScore = nameSimilarity(queueTimesRide.name, themeparksRide.name)
+      const context = contextScore(queueTimesRide, themeparksRide)
+
+      const themeparksWaits = waitsFor('themeparks', themeparksRide.id)
+      const pairs: Array<[number, number]> = []
+      for (const [tick, wait] of queueTimesWaits) {
+        const other = themeparksWaits.get(tick)
+        if (other != null) pairs.push([wait, other])
+      }
+      const correlation = waitCorrelation(pairs, minCorrelationSamples)
+
+      const score = correlation == null
+        ? (NAME_WEIGHT * nameScore + CONTEXT_WEIGHT * context) / (NAME_WEIGHT + CONTEXT_WEIGHT)
+        : NAME_WEIGHT * nameScore + CORRELATION_WEIGHT * Math.max(0, correlation) + CONTEXT_WEIGHT * context
+      if (score < minScore) continue
+
+      scored.push({
+        park_id: parkId,
+        queue_times_id: queueTimesRide.id,
+        themeparks_id: themeparksRide.id,
+        queue_times_name: queueTimesRide.name,
+        themeparks_name: themeparksRide.name,
+        name_score: round(nameScore),
+        context_score: round(context),
+        correlation_score: correlation == null ? null : round(correlation),
+        correlation_samples: pairs.length,
+        score: round(score),
+        status: score >= autoAcceptScore ? 'auto_accepted' : 'pending',
+      })
+    }
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.queue_times_id.localeCompare(b.queue_times_id))
+  const usedQueueTimes = new Set<string>()
+  const usedThemeparks = new Set<string>()
+  const matches: RideMatchCandidate[] = []
+  for (const candidate of scored) {
+    if (usedQueueTimes.has(candidate.queue_times_id) || usedThemeparks.has(candidate.themeparks_id)) continue
+    usedQueueTimes.add(candidate.queue_times_id)
+    usedThemeparks.add(candidate.themeparks_id)
+    matches.push(candidate)
+  }
+  return matches
+}
+
+// ============================================================
+// Turso storage
+// ============================================================
+
+export async function writeRideSourceSamples(client: Client, samples: RideSourceSample[]): Promise<void> {
+  if (samples.length === 0) return
+  await client.batch(
+    samples.map((sample) => ({
+      sql: `INSERT OR REPLACE INTO ride_source_samples (park_id, source, source_ride_id, recorded_at, wait_time, is_open)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [
+        sample.park_id,
+        sample.source,
+        sample.source_ride_id,
+        sample.recorded_at,
+        sample.wait_time,
+        sample.is_open ? 1 : 0,
+      ],
+    })),
+    'write'
+  )
+}
+
+export async function pruneRideSourceSamples(client: Client, beforeIso: string): Promise<number> {
+  const result = await client.execute({ sql: 'DELETE FROM ride_source_samples WHERE recorded_at < ?', args: [beforeIso] })
+  return result.rowsAffected
+}
+
+/**
+ * Samples for one park since a cutoff
+ */
+export async function readRideSourceSamples(client: Client, parkId: string, sinceIso: string): Promise<RideSourceSample[]> {
+  const result = await client.execute({
+    sql: `SELECT park_id, source, source_ride_id, recorded_at, wait_time, is_open
+      FROM ride_source_samples WHERE park_id = ? AND recorded_at >= ?`,
+    args: [parkId, sinceIso],
+  })
+  return result.rows.map((row: any) => ({
+    park_id: String(row.park_id),
+    source: String(row.source) as RideSourceSample['source'],
+    source_ride_id: String(row.source_ride_id),
+    recorded_at: String(row.recorded_at),
+    wait_time: row.wait_time != null ? Number(row.wait_time) : null,
+    is_open: Number(row.is_open) === 1,
+  }))
+}
+
+/**
+ * Candidate statuses by `${queue_times_id}|${themeparks_id}`
+ */
+export async function readCandidateStatuses(client: Client): Promise<Map<string, CandidateStatus>> {
+  const result = await client.execute('SELECT queue_times_id, themeparks_id, status FROM ride_mapping_candidates')
+  return new Map(
+    result.rows.map((row: any) => [`${row.queue_times_id}|${row.themeparks_id}`, String(row.status) as CandidateStatus])
+  )
+}
+
+/**
+ * Upsert candidates; a reviewer's accepted/rejected decision and superseded
+ * pairs are never overwritten
+ */
+export async function upsertRideMatchCandidates(client: Client, candidates: RideMatchCandidate[]): Promise<void> {
+  if (candidates.length === 0) return
+
+  const now = new Date().toISOString()
+  await client.batch(
+    candidates.map((candidate) => ({
+      sql: `INSERT INTO ride_mapping_candidates (queue_times_id, themeparks_id, park_id, queue_times_name,
+          themeparks_name, name_score, context_score, correlation_score, correlation_samples, score, status,
+          created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (queue_times_id, themeparks_id) DO UPDATE SET
+          queue_times_name = excluded.queue_times_name,
+          themeparks_name = excluded.themeparks_name,
+          name_score = excluded.name_score,
+          context_score = excluded.context_score,
+          correlation_score = excluded.correlation_score,
+          correlation_samples = excluded.correlation_samples,
+          score = excluded.score,
+          status = CASE WHEN ride_mapping_candidates.status IN ('accepted', 'rejected', 'superseded')
+            THEN ride_mapping_candidates.status ELSE excluded.status END,
+          updated_at = excluded.updated_at`,
+      args: [
+        candidate.queue_times_id,
+        candidate.themeparks_id,
+        candidate.park_id,
+        candidate.queue_times_name,
+        candidate.themeparks_name,
+        candidate.name_score,
+        candidate.context_score,
+        candidate.correlation_score,
+        candidate.correlation_samples,
+        candidate.score,
+        candidate.status,
+        now,
+        now,
+      ],
+    })),
+    'write'
+  )
+}
+
+/**
+ * Accepted (by a reviewer or automatically) pairs not yet published
+ */
+export async function readUnpublishedAcceptedCandidates(client: Client): Promise<AcceptedCandidate[]> {
+  const result = await client.execute(
+    `SELECT queue_times_id, themeparks_id, status, score FROM ride_mapping_candidates
+      WHERE status IN ('accepted', 'auto_accepted') AND published_at IS NULL`
+  )
+  return result.rows.map((row: any) => ({
+    queue_times_id: String(row.queue_times_id),
+    themeparks_id: String(row.themeparks_id),
+    status: String(row.status) as AcceptedCandidate['status'],
+    score: Number(row.score),
+  }))
+}
+
+/**
+ * One pair per Queue-Times ride, since ride_mappings is keyed by it. A
+ * reviewer's acceptance beats an automatic one, then the higher score wins.
+ */
+export function pickPublishableCandidates(candidates: AcceptedCandidate[]): {
+  publish: AcceptedCandidate[]
+  superseded: AcceptedCandidate[]
+} {
+  const best = new Map<string, AcceptedCandidate>()
+  for (const candidate of candidates) {
+    const current = best.get(candidate.queue_times_id)
+    if (!current || rankAccepted(candidate, current) < 0) best.set(candidate.queue_times_id, candidate)
+  }
+  const publish = Array.from(best.values())
+  return { publish, superseded: candidates.filter((candidate) => !publish.includes(candidate)) }
+}
+
+function rankAccepted(a: AcceptedCandidate, b: AcceptedCandidate): number {
+  const byReviewer = Number(b.status === 'accepted') - Number(a.status === 'accepted')
+  return byReviewer || b.score - a.score || a.themeparks_id.localeCompare(b.themeparks_id)
+}
+
+export async function markCandidatesSuperseded(
+  client: Client,
+  pairs: Array<{ queue_times_id: string; themeparks_id: string }>
+): Promise<void> {
+  if (pairs.length === 0) return
+  const now = new Date().toISOString()
+  await client.batch(
+    pairs.map((pair) => ({
+      sql: `UPDATE ride_mapping_candidates SET status = 'superseded', updated_at = ?
+        WHERE queue_times_id = ? AND themeparks_id = ?`,
+      args: [now, pair.queue_times_id, pair.themeparks_id],
+    })),
+    'write'
+  )
+}
+
+export async function markCandidatesPublished(
+  client: Client,
+  pairs: Array<{ queue_times_id: string; themeparks_id: string }>
+): Promise<void> {
+  if (pairs.length === 0) return
+  const now = new Date().toISOString()
+  await client.batch(
+    pairs.map((pair) => ({
+      sql: 'UPDATE ride_mapping_candidates SET published_at = ? WHERE queue_times_id = ? AND themeparks_id = ?',
+      args: [now, pair.queue_times_id, pair.themeparks_id],
+    })),
+    'write'
+  )
+}
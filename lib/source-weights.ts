@@ -0,0 +1,233 @@
+/**
+ * Learned source weights
+ * Scores Queue-Times and ThemeParks.wiki against a consensus built from Turso
+ * history and turns each source's error into blend weights, per ride and per
+ * park. A source that consistently lags the other drifts from the consensus
+ * and loses weight. Weights are stored in source_weights and loaded by the
+ * collector at start; anything missing falls back to DEFAULT_SOURCE_WEIGHTS.
+ */
+
+import type { Client } from '@libsql/client'
+import { DEFAULT_SOURCE_WEIGHTS, SourceWeights } from './aggregator'
+
+export type SourceWeightSample = {
+  park_id: string
+  ride_id: string
+  recorded_at: string
+  queue_times_wait: number
+  themeparks_wait: number
+}
+
+export type SourceWeightRow = {
+  park_id: string
+  ride_id: string // '' for the park-wide row
+  queue_times_weight: number
+  themeparks_weight: number
+  queue_times_error: number // mean absolute error vs consensus, minutes
+  themeparks_error: number
+  samples: number
+  computed_at: string
+}
+
+export type ComputeSourceWeightsOptions = {
+  // Fewer paired samples than this and a ride/park keeps the default weights
+  minSamples?: number
+  // Floor for either source so one bad week never drops it entirely
+  minWeight?: number
+}
+
+const PARK_WIDE = ''
+
+// Ticks averaged into each consensus value (the current one plus the next two)
+const CONSENSUS_TICKS = 3
+
+// Keeps weights finite when a source matches the consensus exactly
+const ERROR_EPSILON = 0.5
+
+type ErrorTotals = { queueTimes: number; themeparks: number; samples: number }
+
+/**
+ * Consensus for each tick: the mean of both sources over a short forward
+ * window. Both sources converge on a wait within a few
+ * ticks, so measuring against where they converge penalises the one that trails.
+ */
+function accumulateErrors(series: SourceWeightSample[], totals: ErrorTotals) {
+  const pairMeans = series.map((sample) => (sample.queue_times_wait + sample.themeparks_wait) / 2)
+
+  for (let i = 0; i < series.length; i += 1) {
+    const window = pairMeans.slice(i, i + CONSENSUS_TICKS)
+    const consensus = window.reduce((sum, value) => sum + value, 0) / window.length
+    totals.queueTimes += Math.abs(series[i].queue_times_wait - consensus)
+    totals.themeparks += Math.abs(series[i].themeparks_wait - consensus)
+    totals.samples += 1
+  }
+}
+
+function toRow(
+  parkId: string,
+  rideId: string,
+  totals: ErrorTotals,
+  minWeight: number,
+  computedAt: string
+): SourceWeightRow {
+  const queueTimesError = totals.queueTimes / totals.samples
+  const themeparksError = totals.themeparks / totals.samples
+
+  // Inverse-error weighting, clamped to [minWeight, 1 - minWeight]
+  const queueTimesInverse = 1 / (queueTimesError + ERROR_EPSILON)
+  const themeparksInverse = 1 / (themeparksError + ERROR_EPSILON)
+  const raw = queueTimesInverse / (queueTimesInverse + themeparksInverse)
+  const queueTimesWeight = Math.min(1 - minWeight, Math.max(minWeight, raw))
+
+  return {
+    park_id: parkId,
+    ride_id: rideId,
+    queue_times_weight: Number(queueTimesWeight.toFixed(4)),
+    themeparks_weight: Number((1 - queueTimesWeight).toFixed(4)),
+    queue_times_error: Number(queueTimesError.toFixed(3)),
+    themeparks_error: Number(themeparksError.toFixed(3)),
+    samples: totals.samples,
+    computed_at: computedAt,
+  }
+}
+
+/**
+ * Compute per-ride and park-wide weights from paired history samples
+ */
+export function computeSourceWeights(
+  samples: SourceWeightSample[],
+  options: ComputeSourceWeightsOptions = {}
+): SourceWeightRow[] {
+  const minSamples = options.minSamples ?? 50
+  const minWeight = options.minWeight ?? 0.2
+  const computedAt = new Date().toISOString()
+
+  const byRide = new Map<string, SourceWeightSample[]>()
+  for (const sample of samples) {
+    const key = `${sample.park_id}\u0000${sample.ride_id}`
+    const series = byRide.get(key)
+    if (series) series.push(sample)
+    else byRide.set(key, [sample])
+  }
+
+  const rows: SourceWeightRow[] = []
+  const parkTotals = new Map<string, ErrorTotals>()
+
+  for (const series of byRide.values()) {
+    series.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+    const { park_id: parkId, ride_id: rideId } = series[0]
+
+    const rideTotals: ErrorTotals = { queueTimes: 0, themeparks: 0, samples: 0 }
+    accumulateErrors(series, rideTotals)
+    if (rideTotals.samples >= minSamples) {
+      rows.push(toRow(parkId, rideId, rideTotals, minWeight, computedAt))
+    }
+
+    const park = parkTotals.get(parkId) ?? { queueTimes: 0, themeparks: 0, samples: 0 }
+    park.queueTimes += rideTotals.queueTimes
+    park.themeparks += rideTotals.themeparks
+    park.samples += rideTotals.samples
+    parkTotals.set(parkId, park)
+  }
+
+  for (const [parkId, totals] of parkTotals) {
+    if (totals.samples >= minSamples) {
+      rows.push(toRow(parkId, PARK_WIDE, totals, minWeight, computedAt))
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Weight lookup: ride row, then park-wide row, then the defaults
+ */
+export class SourceWeightTable {
+  private weights = new Map<string, SourceWeights>()
+
+  constructor(rows: Array<Pick<SourceWeightRow, 'park_id' | 'ride_id' | 'queue_times_weight' | 'themeparks_weight'>> = []) {
+    for (const row of rows) {
+      this.weights.set(`${row.park_id}\u0000${row.ride_id}`, {
+        queueTimes: row.queue_times_weight,
+        themeparks: row.themeparks_weight,
+      })
+    }
+  }
+
+  get size(): number {
+    return this.weights.size
+  }
+
+  forRide(parkId: string, rideId?: string | null): SourceWeights {
+    return (
+      (rideId ? this.weights.get(`${parkId}\u0000${rideId}`) : undefined) ??
+      this.weights.get(`${parkId}\u0000${PARK_WIDE}`) ??
+      DEFAULT_SOURCE_WEIGHTS
+    )
+  }
+}
+
+export async function loadSourceWeights(client: Client): Promise<SourceWeightTable> {
+  const result = await client.execute(
+    'SELECT park_id, ride_id, queue_times_weight, themeparks_weight FROM source_weights'
+  )
+  return new SourceWeightTable(
+    result.rows.map((row: any) => ({
+      park_id: String(row.park_id),
+      ride_id: String(row.ride_id ?? ''),
+      queue_times_weight: Number(row.queue_times_weight),
+      themeparks_weight: Number(row.themeparks_weight),
+    }))
+  )
+}
+
+/**
+ * Paired samples for one park since a cutoff (open rides with both sources)
+ */
+export async function readSourceWeightSamples(
+  client: Client,
+  parkId: string,
+  sinceIso: string
+): Promise<SourceWeightSample[]> {
+  const result = await client.execute({
+    sql: `SELECT park_id, ride_id, recorded_at, queue_times_wait, themeparks_wait
+      FROM ride_wait_time_history
+      WHERE park_id = ? AND recorded_at >= ? AND is_open = 1
+        AND queue_times_wait IS NOT NULL AND themeparks_wait IS NOT NULL`,
+    args: [parkId, sinceIso],
+  })
+
+  return result.rows.map((row: any) => ({
+    park_id: String(row.park_id),
+    ride_id: String(row.ride_id),
+    recorded_at: String(row.recorded_at),
+    queue_times_wait: Number(row.queue_times_wait),
+    themeparks_wait: Number(row.themeparks_wait),
+  }))
+}
+
+/**
+ * Replace the whole source_weights table in one transaction
+ */
+export async function replaceSourceWeights(client: Client, rows: SourceWeightRow[]): Promise<void> {
+  await client.batch(
+    [
+      'DELETE FROM source_weights',
+      ...rows.map((row) => ({
+        sql: `INSERT INTO source_weights (park_id, ride_id, queue_times_weight, themeparks_weight,
+          queue_times_error, themeparks_error, samples, computed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          row.park_id,
+          row.ride_id,
+          row.queue_times_weight,
+          row.themeparks_weight,
+          row.queue_times_error,
+          row.themeparks_error,
+          row.samples,
+          row.computed_at,
+        ],
+      })),
+    ],
+    'write'
+  )
+}
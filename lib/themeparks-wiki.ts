@@ -4,12 +4,18 @@
  * Documentation: https://api.themeparks.wiki/
  */
 
-interface ThemeParksAttraction {
+import { fetchWithRetry } from './http'
+import type { QueueDetails } from './records'
+
+export type RideStatus = 'OPERATING' | 'DOWN' | 'CLOSED' | 'REFURBISHMENT'
+
+export interface ThemeParksAttraction {
   id: string
   name: string
   entityType: 'ATTRACTION' | 'SHOW' | 'RESTAURANT'
   parkId: string
-  status: 'OPERATING' | 'DOWN' | 'CLOSED' | 'REFURBISHMENT'
+  // Missing on some entities that report no live state
+  status?: RideStatus | null
   queue?: {
     STANDBY?: {
       waitTime: number | null
@@ -19,13 +25,62 @@ interface ThemeParksAttraction {
     }
     RETURN_TIME?: {
       state: string
-      returnStart?: string
-      returnEnd?: string
+      returnStart?: string | null
+      returnEnd?: string | null
+    }
+    PAID_RETURN_TIME?: {
+      state: string
+      returnStart?: string | null
+      returnEnd?: string | null
+      price?: {
+        amount: number
+        currency: string
+      } | null
+    }
+    BOARDING_GROUP?: {
+      allocationStatus: string
+      currentGroupStart?: number | null
+      currentGroupEnd?: number | null
+      nextAllocationTime?: string | null
+      estimatedWait?: number | null
     }
   }
   lastUpdate?: string
 }
 
+export interface ThemeParksScheduleEntry {
+  date: string // park-local YYYY-MM-DD
+  type: 'OPERATING' | 'TICKETED_EVENT' | 'PRIVATE_EVENT' | 'EXTRA_HOURS' | 'INFO' | string
+  description?: string
+  openingTime?: string
+  closingTime?: string
+}
+
+export interface ThemeParksSchedule {
+  timezone: string | null // IANA timezone of the park entity
+  schedule: ThemeParksScheduleEntry[]
+}
+
+export interface ThemeParksDestination {
+  id: string
+  name: string
+  parks: Array<{ id: string; name: string }>
+}
+
+export interface ThemeParksEntity {
+  id: string
+  name: string
+  entityType: string
+  timezone?: string
+  location?: {
+    latitude: number
+    longitude: number
+  }
+}
+
+// Live entities worth listing; restaurants and the like never have a ride queue
+const LISTED_ENTITY_TYPES = new Set(['ATTRACTION', 'SHOW'])
+
 export class ThemeParksWikiClient {
   private baseUrl = 'https://api.themeparks.wiki/v1'
   private cache = new Map<string, { data: any; timestamp: number }>()
@@ -34,7 +89,7 @@ export class ThemeParksWikiClient {
   /**
    * Get live wait times for a park
    */
-  async getParkWaitTimes(parkId: string): Promise<ThemeParksAttraction[] | null> {
+  async getParkWaitTimes(parkId: string, signal?: AbortSignal): Promise<ThemeParksAttraction[] | null> {
     const cacheKey = `waittimes:${parkId}`
     const cached = this.cache.get(cacheKey)
     
@@ -44,17 +99,15 @@ export class ThemeParksWikiClient {
 
     try {
       // Try the live endpoint first
-      const response = await fetch(`${this.baseUrl}/entity/${parkId}/live`)
+      const response = await fetchWithRetry(`${this.baseUrl}/entity/${parkId}/live`, { signal })
       
       if (!response.ok) {
         if (response.status === 404) {
           // Try alternative endpoint structure
-          const altResponse = await fetch(`${this.baseUrl}/entity/${parkId}/children`)
+          const altResponse = await fetchWithRetry(`${this.baseUrl}/entity/${parkId}/children`, { signal })
           if (altResponse.ok) {
             const data = await altResponse.json()
-            const attractions = (data.children || []).filter(
-              (child: any) => child.entityType === 'ATTRACTION' || child.entityType === 'SHOW'
-            )
+            const attractions = (data.children || []).filter((child: any) => LISTED_ENTITY_TYPES.has(child.entityType))
             this.cache.set(cacheKey, { data: attractions, timestamp: Date.now() })
             return attractions
           }
@@ -63,7 +116,7 @@ export class ThemeParksWikiClient {
       }
 
       const data = await response.json()
-      const attractions = data.liveData || []
+      const attractions = (data.liveData || []).filter((entity: any) => LISTED_ENTITY_TYPES.has(entity.entityType))
       
       this.cache.set(cacheKey, { data: attractions, timestamp: Date.now() })
       return attractions
@@ -74,30 +127,138 @@ export class ThemeParksWikiClient {
   }
 
   /**
-   * Convert to simple format for processing
+   * Get the published operating schedule for a park
+   */
+  async getParkSchedule(parkId: string, signal?: AbortSignal): Promise<ThemeParksSchedule | null> {
+    const cacheKey = `schedule:${parkId}`
+    const cached = this.cache.get(cacheKey)
+
+    if (cached && Date.now() - cached.timestamp < this.cacheDuration) {
+      return cached.data
+    }
+
+    try {
+      const response = await fetchWithRetry(`${this.baseUrl}/entity/${parkId}/schedule`, { signal })
+      if (!response.ok) return null
+
+      const data: any = await response.json()
+      const schedule: ThemeParksSchedule = {
+        timezone: typeof data.timezone === 'string' ? data.timezone : null,
+        schedule: Array.isArray(data.schedule) ? data.schedule : [],
+      }
+
+      this.cache.set(cacheKey, { data: schedule, timestamp: Date.now() })
+      return schedule
+    } catch (error) {
+      console.error(`Error fetching schedule for ${parkId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * List every destination (resort) and its parks
+   */
+  async getDestinations(signal?: AbortSignal): Promise<ThemeParksDestination[] | null> {
+    try {
+      const response = await fetchWithRetry(`${this.baseUrl}/destinations`, { signal })
+      if (!response.ok) return null
+
+      const data: any = await response.json()
+      return (Array.isArray(data.destinations) ? data.destinations : []).map((destination: any) => ({
+        id: String(destination.id),
+        name: String(destination.name),
+        parks: (Array.isArray(destination.parks) ? destination.parks : []).map((park: any) => ({
+          id: String(park.id),
+          name: String(park.name),
+        })),
+      }))
+    } catch (error) {
+      console.error('Error fetching destinations:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get an entity document; null when the id no longer exists (404).
+   * Other failures throw so a dead id is never confused with an outage.
+   */
+  async getEntity(entityId: string, signal?: AbortSignal): Promise<ThemeParksEntity | null> {
+    const response = await fetchWithRetry(`${this.baseUrl}/entity/${entityId}`, { signal })
+    if (response.status === 404) return null
+    if (!response.ok) throw new Error(`ThemeParks.wiki entity ${entityId} returned ${response.status}`)
+    return (await response.json()) as ThemeParksEntity
+  }
+
+  /**
+   * Convert to simple format for processing. Only ATTRACTION entities become
+   * rows. A reported status other than OPERATING always yields a closed row
+   * so downtime tracking sees it; only entities with neither a status nor a
+   * wait are skipped.
    */
   convertToSimpleFormat(attraction: ThemeParksAttraction): {
     id: string
     name: string
     wait_time: number
     is_open: boolean
+    status?: RideStatus
     single_rider_time?: number
+    queue_details?: QueueDetails
   } | null {
+    if (attraction.entityType !== 'ATTRACTION') return null
+
     const waitTime = attraction.queue?.STANDBY?.waitTime
     const singleRiderTime = attraction.queue?.SINGLE_RIDER?.waitTime
-    
-    // Skip if no valid data
-    if (waitTime === null && singleRiderTime === null && attraction.status !== 'OPERATING') {
+    const status = attraction.status ?? undefined
+
+    if (!status && waitTime == null && singleRiderTime == null) {
       return null
     }
-    
+
+    const operating = status === 'OPERATING'
     return {
       id: attraction.id,
       name: attraction.name,
-      wait_time: waitTime || 0,
-      is_open: attraction.status === 'OPERATING',
-      single_rider_time: singleRiderTime || undefined
+      wait_time: status && !operating ? 0 : waitTime || 0,
+      is_open: operating,
+      status,
+      single_rider_time: singleRiderTime ?? undefined,
+      queue_details: this.extractQueueDetails(attraction)
+    }
+  }
+
+  /**
+   * Flatten single rider, return-time and boarding-group queues into record
+   * columns; undefined when the attraction has none of them
+   */
+  extractQueueDetails(attraction: ThemeParksAttraction): QueueDetails | undefined {
+    const queue = attraction.queue
+    if (!queue) return undefined
+
+    const details: QueueDetails = {}
+    if (queue.SINGLE_RIDER) {
+      details.single_rider_wait = queue.SINGLE_RIDER.waitTime ?? null
     }
+    if (queue.RETURN_TIME) {
+      details.return_time_state = queue.RETURN_TIME.state
+      details.return_time_start = queue.RETURN_TIME.returnStart ?? null
+      details.return_time_end = queue.RETURN_TIME.returnEnd ?? null
+    }
+    if (queue.PAID_RETURN_TIME) {
+      details.paid_return_time_state = queue.PAID_RETURN_TIME.state
+      details.paid_return_time_start = queue.PAID_RETURN_TIME.returnStart ?? null
+      details.paid_return_time_end = queue.PAID_RETURN_TIME.returnEnd ?? null
+      details.paid_return_time_price = queue.PAID_RETURN_TIME.price?.amount ?? null
+      details.paid_return_time_currency = queue.PAID_RETURN_TIME.price?.currency ?? null
+    }
+    if (queue.BOARDING_GROUP) {
+      details.boarding_group_state = queue.BOARDING_GROUP.allocationStatus
+      details.boarding_group_current_start = queue.BOARDING_GROUP.currentGroupStart ?? null
+      details.boarding_group_current_end = queue.BOARDING_GROUP.currentGroupEnd ?? null
+      details.boarding_group_next_allocation = queue.BOARDING_GROUP.nextAllocationTime ?? null
+      details.boarding_group_estimated_wait = queue.BOARDING_GROUP.estimatedWait ?? null
+    }
+
+    return Object.keys(details).length > 0 ? details : undefined
   }
 
   /**
@@ -0,0 +1,147 @@
+/**
+ * Turso schema migrations
+ * Applies versioned SQL files from migrations/ (NNNN_description.sql) in order
+ * and records each one in schema_migrations. Every migration runs as a single
+ * libSQL write batch, so a failed migration leaves no partial schema behind.
+ * ADD COLUMN statements for columns that already exist are skipped, so a
+ * column created outside migrations does not block the file that adds it.
+ */
+
+import * as crypto from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Client } from '@libsql/client'
+
+export const MIGRATIONS_DIR = path.resolve(__dirname, '..', 'migrations')
+
+export type Migration = {
+  version: string
+  name: string
+  sql: string
+  checksum: string
+}
+
+export type MigrationStatus = {
+  version: string
+  name: string
+  applied: boolean
+  appliedAt: string | null
+  checksumMismatch: boolean
+}
+
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/
+
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => FILE_PATTERN.test(file))
+    .sort()
+    .map((file) => {
+      const [, version, name] = file.match(FILE_PATTERN)!
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8')
+      const checksum = crypto.createHash('sha256').update(sql).digest('hex')
+      return { version, name, sql, checksum }
+    })
+}
+
+/**
+ * Split a migration file into statements (comments stripped, split on ';')
+ */
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split('\n')
+    .map((line) => line.replace(/--.*$/, ''))
+    .join('\n')
+    .split(';')
+    .map((statement) => statement.trim())
+    .filter(Boolean)
+}
+
+const ADD_COLUMN_PATTERN = /^ALTER\s+TABLE\s+(\w+)\s+ADD\s+COLUMN\s+(\w+)/i
+
+/**
+ * Drop ALTER TABLE ... ADD COLUMN statements whose column is already there
+ */
+async function withoutExistingColumns(client: Client, statements: string[]): Promise<string[]> {
+  const columnsByTable = new Map<string, Set<string>>()
+  const kept: string[] = []
+
+  for (const statement of statements) {
+    const match = statement.match(ADD_COLUMN_PATTERN)
+    if (match) {
+      const [, table, column] = match
+      let columns = columnsByTable.get(table)
+      if (!columns) {
+        const result = await client.execute(`PRAGMA table_info(${table})`)
+        columns = new Set(result.rows.map((row: any) => String(row.name)))
+        columnsByTable.set(table, columns)
+      }
+      if (columns.has(column)) continue
+    }
+    kept.push(statement)
+  }
+
+  return kept
+}
+
+async function ensureMigrationsTable(client: Client) {
+  await client.execute(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )`)
+}
+
+export async function getMigrationStatus(client: Client, dir = MIGRATIONS_DIR): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(client)
+
+  const result = await client.execute('SELECT version, checksum, applied_at FROM schema_migrations')
+  const applied = new Map(
+    result.rows.map((row: any) => [String(row.version), { checksum: String(row.checksum), appliedAt: String(row.applied_at) }])
+  )
+
+  return loadMigrations(dir).map((migration) => {
+    const row = applied.get(migration.version)
+    return {
+      version: migration.version,
+      name: migration.name,
+      applied: Boolean(row),
+      appliedAt: row?.appliedAt ?? null,
+      checksumMismatch: Boolean(row && row.checksum !== migration.checksum),
+    }
+  })
+}
+
+/**
+ * Apply all pending migrations in version order; returns applied versions
+ */
+export async function runTursoMigrations(client: Client, dir = MIGRATIONS_DIR): Promise<string[]> {
+  const status = await getMigrationStatus(client, dir)
+  const pending = new Set(status.filter((entry) => !entry.applied).map((entry) => entry.version))
+
+  for (const entry of status) {
+    if (entry.checksumMismatch) {
+      console.warn(`⚠️  Migration ${entry.version}_${entry.name} changed after it was applied`)
+    }
+  }
+
+  const applied: string[] = []
+  for (const migration of loadMigrations(dir)) {
+    if (!pending.has(migration.version)) continue
+
+    await client.batch(
+      [
+        ...(await withoutExistingColumns(client, splitStatements(migration.sql))),
+        {
+          sql: 'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)',
+          args: [migration.version, migration.name, migration.checksum, new Date().toISOString()],
+        },
+      ],
+      'write'
+    )
+    applied.push(migration.version)
+  }
+
+  return applied
+}
@@ -0,0 +1,66 @@
+/**
+ * Hourly weather forecasts
+ * Turns the hourly block of the Open-Meteo response into
+ * park_weather_forecast rows keyed by the hour the forecast was issued in.
+ */
+
+import * as crypto from 'node:crypto'
+import { localTimeParts } from './local-time'
+import { getWeatherType, OpenMeteoForecastHour } from './open-meteo'
+import type { WeatherForecastRecord } from './records'
+
+const HOUR_MS = 60 * 60 * 1000
+const TICK_MS = 5 * 60 * 1000
+
+/**
+ * Whether the 5-minute collection tick containing `at` is aligned to the
+ * forecast interval; forecasts change slowly, so most ticks skip them.
+ * The interval is rounded to whole ticks, since an interval that is not a
+ * multiple of 5 minutes would rarely or never land on a tick.
+ */
+export function isForecastDue(at: string, intervalMinutes: number): boolean {
+  const tickMs = Math.floor(Date.parse(at) / TICK_MS) * TICK_MS
+  const intervalMs = Math.max(1, Math.round((intervalMinutes * 60 * 1000) / TICK_MS)) * TICK_MS
+  return tickMs % intervalMs === 0
+}
+
+/**
+ * Start of the hour a forecast fetched at recordedAt is filed under
+ */
+export function forecastIssueHour(recordedAt: string): string {
+  return new Date(Math.floor(Date.parse(recordedAt) / HOUR_MS) * HOUR_MS).toISOString()
+}
+
+/**
+ * Forecast rows for one location; ids are stable so re-fetching within the
+ * same hour upserts rather than duplicates. sourceLocationId is set when the
+ * forecast was fetched for a nearby location.
+ */
+export function toForecastRecords(
+  locationId: string,
+  forecast: OpenMeteoForecastHour[],
+  recordedAt: string,
+  source: string,
+  timeZone: string | null = null,
+  sourceLocationId: string | null = null
+): WeatherForecastRecord[] {
+  const issuedAt = forecastIssueHour(recordedAt)
+  const issuedMs = Date.parse(issuedAt)
+
+  return forecast
+    .filter((hour) => Date.parse(hour.time) >= issuedMs)
+    .map((hour) => ({
+      id: crypto.createHash('sha256').update(`${locationId}|${issuedAt}|${hour.time}`).digest('hex').slice(0, 32),
+      location_id: locationId,
+      issued_at: issuedAt,
+      forecast_time: hour.time,
+      lead_hours: Math.round((Date.parse(hour.time) - issuedMs) / HOUR_MS),
+      temperature: hour.temp ?? null,
+      precipitation_probability: hour.precip_prob ?? null,
+      weather_code: hour.code ?? null,
+      weather_type: getWeatherType(hour.code ?? 0),
+      ...(timeZone ? localTimeParts(hour.time, timeZone) : { local_date: null, local_hour: null }),
+      source_location_id: sourceLocationId,
+      source,
+    }))
+}
@@ -0,0 +1,33 @@
+-- Historical tables written by the collectors (lib/database-clients.ts).
+-- IF NOT EXISTS keeps this safe to apply to databases created before migrations.
+
+CREATE TABLE IF NOT EXISTS ride_wait_time_history (
+  id TEXT PRIMARY KEY,
+  ride_id TEXT NOT NULL,
+  park_id TEXT,
+  wait_time INTEGER NOT NULL DEFAULT 0,
+  is_open INTEGER NOT NULL DEFAULT 1,
+  status TEXT,
+  source TEXT NOT NULL DEFAULT 'queue_times',
+  recorded_at TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS park_weather_history (
+  id TEXT PRIMARY KEY,
+  park_id TEXT,
+  temperature REAL,
+  feels_like REAL,
+  precipitation REAL,
+  humidity REAL,
+  wind_speed REAL,
+  uv_index REAL,
+  weather_code INTEGER,
+  weather_description TEXT,
+  cloud_cover REAL,
+  visibility REAL,
+  pressure REAL,
+  recorded_at TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'open_meteo',
+  created_at TEXT NOT NULL
+);
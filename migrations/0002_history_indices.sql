@@ -0,0 +1,13 @@
+-- Lookup paths used by the history APIs and the SLO monitor.
+
+CREATE INDEX IF NOT EXISTS idx_ride_wait_time_history_ride_recorded
+  ON ride_wait_time_history (ride_id, recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_ride_wait_time_history_park_recorded
+  ON ride_wait_time_history (park_id, recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_ride_wait_time_history_recorded
+  ON ride_wait_time_history (recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_park_weather_history_park_recorded
+  ON park_weather_history (park_id, recorded_at);
@@ -0,0 +1,17 @@
+-- Learned blend weights computed from per-source waits by
+-- scripts/compute-source-weights.ts. The per-source columns themselves are
+-- added by 0012, since the old enhanced collector already created them on
+-- some databases.
+
+-- ride_id = '' holds the park-wide weights used for rides without their own row.
+CREATE TABLE IF NOT EXISTS source_weights (
+  park_id TEXT NOT NULL,
+  ride_id TEXT NOT NULL DEFAULT '',
+  queue_times_weight REAL NOT NULL,
+  themeparks_weight REAL NOT NULL,
+  queue_times_error REAL NOT NULL,
+  themeparks_error REAL NOT NULL,
+  samples INTEGER NOT NULL,
+  computed_at TEXT NOT NULL,
+  PRIMARY KEY (park_id, ride_id)
+);
@@ -0,0 +1,17 @@
+-- Queue detail beyond standby from ThemeParks.wiki: single rider, free and paid
+-- return times (Lightning Lane) and virtual-queue boarding groups.
+
+ALTER TABLE ride_wait_time_history ADD COLUMN single_rider_wait INTEGER;
+ALTER TABLE ride_wait_time_history ADD COLUMN return_time_state TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN return_time_start TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN return_time_end TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN paid_return_time_state TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN paid_return_time_start TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN paid_return_time_end TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN paid_return_time_price INTEGER;
+ALTER TABLE ride_wait_time_history ADD COLUMN paid_return_time_currency TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN boarding_group_state TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN boarding_group_current_start INTEGER;
+ALTER TABLE ride_wait_time_history ADD COLUMN boarding_group_current_end INTEGER;
+ALTER TABLE ride_wait_time_history ADD COLUMN boarding_group_next_allocation TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN boarding_group_estimated_wait INTEGER;
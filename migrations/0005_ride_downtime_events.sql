@@ -0,0 +1,21 @@
+-- Unplanned downtime derived from consecutive status ticks (lib/downtime.ts).
+-- ended_at is NULL while the ride is still DOWN at the latest tick.
+
+CREATE TABLE IF NOT EXISTS ride_downtime_events (
+  id TEXT PRIMARY KEY,
+  ride_id TEXT NOT NULL,
+  park_id TEXT,
+  started_at TEXT NOT NULL,
+  last_down_at TEXT NOT NULL,
+  ended_at TEXT,
+  ended_status TEXT,
+  duration_minutes INTEGER,
+  down_ticks INTEGER NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_downtime_events_ride_started
+  ON ride_downtime_events (ride_id, started_at);
+
+CREATE INDEX IF NOT EXISTS idx_ride_downtime_events_park_started
+  ON ride_downtime_events (park_id, started_at);
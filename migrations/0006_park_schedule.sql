@@ -0,0 +1,20 @@
+-- Park operating schedules from ThemeParks.wiki, and whether the park was open
+-- when each wait-time row was recorded.
+
+CREATE TABLE IF NOT EXISTS park_schedule_history (
+  id TEXT PRIMARY KEY,
+  park_id TEXT NOT NULL,
+  themeparks_id TEXT NOT NULL,
+  schedule_date TEXT NOT NULL,
+  schedule_type TEXT NOT NULL,
+  description TEXT,
+  opening_time TEXT,
+  closing_time TEXT,
+  recorded_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_park_schedule_history_park_date
+  ON park_schedule_history (park_id, schedule_date);
+
+ALTER TABLE ride_wait_time_history ADD COLUMN park_open INTEGER;
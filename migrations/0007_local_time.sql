@@ -0,0 +1,17 @@
+-- Park-local time: learned IANA timezones per location, and the local date
+-- and hour each history row was recorded at (lib/local-time.ts).
+
+CREATE TABLE IF NOT EXISTS park_timezones (
+  park_id TEXT PRIMARY KEY,
+  timezone TEXT NOT NULL,
+  source TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+ALTER TABLE ride_wait_time_history ADD COLUMN local_date TEXT;
+ALTER TABLE ride_wait_time_history ADD COLUMN local_hour INTEGER;
+ALTER TABLE park_weather_history ADD COLUMN local_date TEXT;
+ALTER TABLE park_weather_history ADD COLUMN local_hour INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_ride_wait_time_history_park_local_hour
+  ON ride_wait_time_history (park_id, local_hour);
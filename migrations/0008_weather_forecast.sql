@@ -0,0 +1,25 @@
+-- Hourly weather forecasts (lib/weather-forecast.ts), one row per location,
+-- issue hour and forecast hour, so prediction features can join the forecast
+-- that was available at any point in time.
+
+CREATE TABLE IF NOT EXISTS park_weather_forecast (
+  id TEXT PRIMARY KEY,
+  park_id TEXT NOT NULL,
+  issued_at TEXT NOT NULL,
+  forecast_time TEXT NOT NULL,
+  lead_hours INTEGER NOT NULL,
+  temperature REAL,
+  precipitation_probability REAL,
+  weather_code INTEGER,
+  weather_description TEXT,
+  local_date TEXT,
+  local_hour INTEGER,
+  source TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_park_weather_forecast_park_time
+  ON park_weather_forecast (park_id, forecast_time);
+
+CREATE INDEX IF NOT EXISTS idx_park_weather_forecast_park_issued
+  ON park_weather_forecast (park_id, issued_at);
@@ -0,0 +1,5 @@
+-- Weather shared between nearby locations (lib/geo-weather-cache.ts) records
+-- the location whose coordinates were actually fetched.
+
+ALTER TABLE park_weather_history ADD COLUMN source_location_id TEXT;
+ALTER TABLE park_weather_forecast ADD COLUMN source_location_id TEXT;
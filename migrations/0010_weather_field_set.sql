@@ -0,0 +1,6 @@
+-- Remaining Open-Meteo measurements (WEATHER_MEASUREMENT_FIELDS in lib/records.ts).
+-- cloud_cover, visibility and pressure already exist from 0001.
+
+ALTER TABLE park_weather_history ADD COLUMN precipitation_probability REAL;
+ALTER TABLE park_weather_history ADD COLUMN wind_direction REAL;
+ALTER TABLE park_weather_history ADD COLUMN wind_gusts REAL;
@@ -0,0 +1,39 @@
+-- Ride-mapping discovery (lib/ride-matcher.ts, scripts/match-ride-mappings.ts).
+-- ride_source_samples keeps raw per-source waits for unmapped rides so the
+-- matcher can correlate them; ride_mapping_candidates is the review table.
+-- status: pending | auto_accepted | accepted | rejected. Reviewer decisions
+-- (accepted/rejected) are never overwritten by later runs.
+
+CREATE TABLE IF NOT EXISTS ride_source_samples (
+  park_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+  source_ride_id TEXT NOT NULL,
+  recorded_at TEXT NOT NULL,
+  wait_time INTEGER,
+  is_open INTEGER NOT NULL,
+  PRIMARY KEY (source, source_ride_id, recorded_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_source_samples_park_recorded
+  ON ride_source_samples (park_id, recorded_at);
+
+CREATE TABLE IF NOT EXISTS ride_mapping_candidates (
+  queue_times_id TEXT NOT NULL,
+  themeparks_id TEXT NOT NULL,
+  park_id TEXT NOT NULL,
+  queue_times_name TEXT NOT NULL,
+  themeparks_name TEXT NOT NULL,
+  name_score REAL NOT NULL,
+  context_score REAL NOT NULL,
+  correlation_score REAL,
+  correlation_samples INTEGER NOT NULL DEFAULT 0,
+  score REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  published_at TEXT,
+  PRIMARY KEY (queue_times_id, themeparks_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_mapping_candidates_park_status
+  ON ride_mapping_candidates (park_id, status);
@@ -0,0 +1,7 @@
+-- Per-source waits and blend confidence on history rows (dual mode). Databases
+-- the old enhanced collector wrote to already have these; the runner skips
+-- ADD COLUMN for columns that exist.
+
+ALTER TABLE ride_wait_time_history ADD COLUMN queue_times_wait INTEGER;
+ALTER TABLE ride_wait_time_history ADD COLUMN themeparks_wait INTEGER;
+ALTER TABLE ride_wait_time_history ADD COLUMN confidence REAL;
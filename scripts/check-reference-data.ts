@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+
+/**
+ * Load reference data the way the collectors do and print its consistency
+ * report: dual-sourced parks, where park mappings came from, and mapping
+ * issues. Pass --seed to copy mappings.json entries that Supabase
+ * park_mappings lacks into it, and --strict to exit non-zero on any issue.
+ */
+
+import * as fs from 'fs'
+import { getSupabaseServiceClient, isLocalMode } from '../lib/database-clients'
+import { checkReferenceConsistency, loadReferenceData } from '../lib/reference-data'
+
+async function main() {
+  const startedAtMs = Date.now()
+  const seed = process.argv.includes('--seed')
+  const strict = process.argv.includes('--strict')
+
+  const reference = await loadReferenceData({ refresh: true })
+  const report = checkReferenceConsistency(reference)
+
+  let seeded = 0
+  if (seed) {
+    if (isLocalMode() || reference.source !== 'supabase') {
+      throw new Error('--seed needs a live Supabase load (not local mode or a cached snapshot)')
+    }
+    const rows = Array.from(reference.parkMappings)
+      .filter(([, mapping]) => mapping.source === 'mappings_file')
+      .map(([queueTimesId, mapping]) => ({
+        queue_times_id: queueTimesId,
+        themeparks_id: mapping.themeparks_id,
+        timezone: mapping.timezone,
+        active_window: mapping.active_window,
+      }))
+    if (rows.length > 0) {
+      const { error } = await getSupabaseServiceClient()
+        .from('park_mappings')
+        .upsert(rows, { onConflict: 'queue_times_id' })
+      if (error) throw new Error(`Supabase error seeding park mappings: ${error.message}`)
+      seeded = rows.length
+    }
+  }
+
+  const summary = {
+    executionTimeMs: Date.now() - startedAtMs,
+    ...report,
+    seeded,
+  }
+
+  console.log(JSON.stringify(summary, null, 2))
+
+  const reportFile = process.env.REPORT_FILE
+  if (reportFile) {
+    fs.writeFileSync(reportFile, `${JSON.stringify(summary, null, 2)}\n`, 'utf8')
+  }
+
+  if (strict && report.issues.length > 0) process.exit(1)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
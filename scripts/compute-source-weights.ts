@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+
+/**
+ * Nightly job: learn per-park and per-ride Queue-Times/ThemeParks.wiki blend
+ * weights from recent Turso history and replace the source_weights table.
+ * Pass --dry-run to print the weights without writing them.
+ */
+
+import * as fs from 'fs'
+import { getTursoClient } from '../lib/database-clients'
+import {
+  computeSourceWeights,
+  readSourceWeightSamples,
+  replaceSourceWeights,
+  SourceWeightRow,
+} from '../lib/source-weights'
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(process.env[name] || '', 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.max(min, Math.min(max, parsed))
+}
+
+async function main() {
+  const startedAtMs = Date.now()
+  const dryRun = process.argv.includes('--dry-run')
+  const lookbackDays = envInt('SOURCE_WEIGHTS_LOOKBACK_DAYS', 7, 1, 90)
+  const minSamples = envInt('SOURCE_WEIGHTS_MIN_SAMPLES', 50, 1, 100000)
+  // Percent, so it fits envInt; 20 -> neither source drops below 0.2
+  const minWeight = envInt('SOURCE_WEIGHTS_MIN_WEIGHT_PCT', 20, 0, 50) / 100
+  const sinceIso = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString()
+
+  const turso = getTursoClient()
+  const parks = await turso.execute({
+    sql: `SELECT DISTINCT park_id FROM ride_wait_time_history
+      WHERE recorded_at >= ? AND park_id IS NOT NULL AND themeparks_wait IS NOT NULL`,
+    args: [sinceIso],
+  })
+
+  // One park at a time keeps each read bounded
+  const rows: SourceWeightRow[] = []
+  let samples = 0
+  for (const park of parks.rows) {
+    const parkSamples = await readSourceWeightSamples(turso, String(park.park_id), sinceIso)
+    samples += parkSamples.length
+    rows.push(...computeSourceWeights(parkSamples, { minSamples, minWeight }))
+  }
+
+  if (!dryRun) {
+    await replaceSourceWeights(turso, rows)
+  }
+
+  const summary = {
+    dryRun,
+    lookbackDays,
+    minSamples,
+    minWeight,
+    executionTimeMs: Date.now() - startedAtMs,
+    parks: parks.rows.length,
+    samples,
+    parkWeights: rows.filter((row) => row.ride_id === '').length,
+    rideWeights: rows.filter((row) => row.ride_id !== '').length,
+    weights: rows.filter((row) => row.ride_id === ''),
+  }
+
+  console.log(JSON.stringify(summary, null, 2))
+
+  const reportFile = process.env.REPORT_FILE
+  if (reportFile) {
+    fs.writeFileSync(reportFile, `${JSON.stringify({ ...summary, weights: rows }, null, 2)}\n`, 'utf8')
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
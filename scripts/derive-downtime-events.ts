@@ -0,0 +1,70 @@
+#!/usr/bin/env tsx
+
+/**
+ * Derive ride downtime events from recent status ticks in Turso and upsert
+ * them into ride_downtime_events. Safe to rerun: event ids are stable.
+ * Pass --dry-run to print the events without writing them.
+ */
+
+import * as fs from 'fs'
+import { getTursoClient } from '../lib/database-clients'
+import {
+  deriveDowntimeEvents,
+  DowntimeEvent,
+  readOpenDowntimeEvents,
+  readStatusSamples,
+  writeDowntimeEvents,
+} from '../lib/downtime'
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(process.env[name] || '', 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.max(min, Math.min(max, parsed))
+}
+
+async function main() {
+  const startedAtMs = Date.now()
+  const dryRun = process.argv.includes('--dry-run')
+  const lookbackHours = envInt('DOWNTIME_LOOKBACK_HOURS', 48, 1, 24 * 30)
+  const maxGapMinutes = envInt('DOWNTIME_MAX_GAP_MINUTES', 30, 5, 24 * 60)
+  const sinceIso = new Date(Date.now() - lookbackHours * 60 * 60 * 1000).toISOString()
+
+  const turso = getTursoClient()
+  const parks = await turso.execute({
+    sql: `SELECT DISTINCT park_id FROM ride_wait_time_history
+      WHERE recorded_at >= ? AND park_id IS NOT NULL AND status IS NOT NULL`,
+    args: [sinceIso],
+  })
+
+  const events: DowntimeEvent[] = []
+  for (const park of parks.rows) {
+    const samples = await readStatusSamples(turso, String(park.park_id), sinceIso)
+    const openEvents = await readOpenDowntimeEvents(turso, String(park.park_id))
+    const parkEvents = deriveDowntimeEvents(samples, { maxGapMinutes, openEvents })
+    if (!dryRun) await writeDowntimeEvents(turso, parkEvents)
+    events.push(...parkEvents)
+  }
+
+  const summary = {
+    dryRun,
+    lookbackHours,
+    maxGapMinutes,
+    executionTimeMs: Date.now() - startedAtMs,
+    parks: parks.rows.length,
+    events: events.length,
+    ongoing: events.filter((event) => event.ended_at === null).length,
+    downMinutes: events.reduce((sum, event) => sum + (event.duration_minutes ?? 0), 0),
+  }
+
+  console.log(JSON.stringify(summary, null, 2))
+
+  const reportFile = process.env.REPORT_FILE
+  if (reportFile) {
+    fs.writeFileSync(reportFile, `${JSON.stringify({ ...summary, eventList: events }, null, 2)}\n`, 'utf8')
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,178 @@
+#!/usr/bin/env tsx
+
+/**
+ * Propose Queue-Times <-> ThemeParks.wiki ride mappings for every mapped park.
+ * Each run records one sample tick of both sources' unmapped rides, scores
+ * every same-park pair (lib/ride-matcher.ts) and upserts the best pairs into
+ * Turso ride_mapping_candidates. Accepted and auto-accepted pairs are then
+ * published to Supabase ride_mappings.
+ * Pass --dry-run to score without writing anything.
+ */
+
+import * as fs from 'fs'
+import { getSupabaseServiceClient, getTursoClient, isLocalMode } from '../lib/database-clients'
+import { queueTimes } from '../lib/queue-times'
+import { loadReferenceData } from '../lib/reference-data'
+import {
+  markCandidatesPublished,
+  markCandidatesSuperseded,
+  MatchableRide,
+  pickPublishableCandidates,
+  proposeRideMatches,
+  pruneRideSourceSamples,
+  readCandidateStatuses,
+  readRideSourceSamples,
+  readUnpublishedAcceptedCandidates,
+  RideMatchCandidate,
+  RideSourceSample,
+  upsertRideMatchCandidates,
+  writeRideSourceSamples,
+} from '../lib/ride-matcher'
+import { themeParksWiki } from '../lib/themeparks-wiki'
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(process.env[name] || '', 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.max(min, Math.min(max, parsed))
+}
+
+function envScore(name: string, fallback: number): number {
+  const parsed = Number.parseFloat(process.env[name] || '')
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.max(0, Math.min(1, parsed))
+}
+
+async function main() {
+  const startedAtMs = Date.now()
+  const dryRun = process.argv.includes('--dry-run')
+  const lookbackDays = envInt('RIDE_MATCH_LOOKBACK_DAYS', 14, 1, 90)
+  const minSamples = envInt('RIDE_MATCH_MIN_SAMPLES', 24, 3, 10_000)
+  const minScore = envScore('RIDE_MATCH_MIN_SCORE', 0.5)
+  const autoAcceptScore = envScore('RIDE_MATCH_AUTO_ACCEPT', 0.9)
+  const sinceIso = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString()
+  // Both sources share one tick so their samples pair up
+  const recordedAt = new Date(Math.floor(Date.now() / 60_000) * 60_000).toISOString()
+
+  const reference = await loadReferenceData()
+  const turso = getTursoClient()
+  const statuses = await readCandidateStatuses(turso)
+  const rejected = new Set(
+    Array.from(statuses).filter(([, status]) => status === 'rejected').map(([pair]) => pair)
+  )
+  const mappedThemeparks = new Set(reference.rideMappings.values())
+
+  const parks = reference.locations.filter((location) => location.external_id != null && location.themeparks_id)
+  const candidates: RideMatchCandidate[] = []
+  const failedParks: string[] = []
+  let samplesRecorded = 0
+
+  if (!dryRun) await pruneRideSourceSamples(turso, sinceIso)
+
+  for (const park of parks) {
+    const [queueTimesRides, themeparksRides] = await Promise.all([
+      queueTimes.getParkQueueTimes(park.external_id!),
+      themeParksWiki.getParkWaitTimes(park.themeparks_id!),
+    ])
+    if (!queueTimesRides || !themeparksRides) {
+      failedParks.push(park.name)
+      continue
+    }
+
+    const unmappedQueueTimes = queueTimesRides.filter((ride) => !reference.rideMappings.has(String(ride.id)))
+    const unmappedThemeparks = themeparksRides.filter((ride) => !mappedThemeparks.has(ride.id))
+    if (unmappedQueueTimes.length === 0 || unmappedThemeparks.length === 0) continue
+
+    const tick: RideSourceSample[] = [
+      ...unmappedQueueTimes.map((ride) => ({
+        park_id: park.id,
+        source: 'queue_times' as const,
+        source_ride_id: String(ride.id),
+        recorded_at: recordedAt,
+        wait_time: Number.isFinite(ride.wait_time) ? ride.wait_time : null,
+        is_open: ride.is_open,
+      })),
+      ...unmappedThemeparks.map((ride) => ({
+        park_id: park.id,
+        source: 'themeparks' as const,
+        source_ride_id: ride.id,
+        recorded_at: recordedAt,
+        wait_time: ride.queue?.STANDBY?.waitTime ?? null,
+        is_open: ride.status === 'OPERATING',
+      })),
+    ]
+    if (!dryRun) {
+      await writeRideSourceSamples(turso, tick)
+      samplesRecorded += tick.length
+    }
+    const stored = await readRideSourceSamples(turso, park.id, sinceIso)
+    const history = dryRun ? [...stored, ...tick] : stored
+
+    const queueTimesMatchable: MatchableRide[] = unmappedQueueTimes.map((ride) => ({
+      id: String(ride.id),
+      name: ride.name,
+      land: ride.land ?? null,
+    }))
+    const themeparksMatchable: MatchableRide[] = unmappedThemeparks.map((ride) => ({
+      id: ride.id,
+      name: ride.name,
+      entity_type: ride.entityType,
+    }))
+
+    const parkCandidates = proposeRideMatches(park.id, queueTimesMatchable, themeparksMatchable, history, {
+      minScore,
+      autoAcceptScore,
+      minCorrelationSamples: minSamples,
+      rejected,
+    })
+    if (!dryRun) await upsertRideMatchCandidates(turso, parkCandidates)
+    candidates.push(...parkCandidates)
+  }
+
+  // Publish everything accepted so far, including reviewer decisions from earlier runs
+  let published = 0
+  let superseded = 0
+  if (!dryRun && !isLocalMode()) {
+    const { publish, superseded: losers } = pickPublishableCandidates(await readUnpublishedAcceptedCandidates(turso))
+    // Losers would collide on queue_times_id in every later upsert
+    await markCandidatesSuperseded(turso, losers)
+    superseded = losers.length
+    if (publish.length > 0) {
+      const rows = publish.map(({ queue_times_id, themeparks_id }) => ({ queue_times_id, themeparks_id }))
+      const { error } = await getSupabaseServiceClient()
+        .from('ride_mappings')
+        .upsert(rows, { onConflict: 'queue_times_id' })
+      if (error) throw new Error(`Supabase error publishing ride mappings: ${error.message}`)
+      await markCandidatesPublished(turso, rows)
+      published = publish.length
+    }
+  }
+
+  const summary = {
+    dryRun,
+    lookbackDays,
+    minSamples,
+    minScore,
+    autoAcceptScore,
+    executionTimeMs: Date.now() - startedAtMs,
+    parks: parks.length,
+    failedParks,
+    samplesRecorded,
+    candidates: candidates.length,
+    autoAccepted: candidates.filter((candidate) => candidate.status === 'auto_accepted').length,
+    withCorrelation: candidates.filter((candidate) => candidate.correlation_score != null).length,
+    published,
+    superseded,
+  }
+
+  console.log(JSON.stringify(summary, null, 2))
+
+  const reportFile = process.env.REPORT_FILE
+  if (reportFile) {
+    fs.writeFileSync(reportFile, `${JSON.stringify({ ...summary, candidateList: candidates }, null, 2)}\n`, 'utf8')
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
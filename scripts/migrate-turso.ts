@@ -0,0 +1,26 @@
+#!/usr/bin/env tsx
+
+import { getTursoClient } from '../lib/database-clients'
+import { getMigrationStatus, runTursoMigrations } from '../lib/turso-migrations'
+
+async function main() {
+  const statusOnly = process.argv.includes('--status')
+  const turso = getTursoClient()
+
+  if (!statusOnly) {
+    const applied = await runTursoMigrations(turso)
+    console.log(applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : 'No pending migrations.')
+  }
+
+  const status = await getMigrationStatus(turso)
+  console.log(JSON.stringify(status, null, 2))
+
+  if (status.some((entry) => !entry.applied || entry.checksumMismatch)) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
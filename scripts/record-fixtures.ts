@@ -0,0 +1,51 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-record the HTTP fixtures used by the test suite from the live APIs.
+ * Review the diff afterwards: assertions in tests/ pin the recorded values.
+ */
+
+import { getFixtureDir } from '../lib/http-fixtures'
+import { openMeteo } from '../lib/open-meteo'
+import { loadSyncSources } from '../lib/park-mapping-sync'
+import { queueTimes } from '../lib/queue-times'
+import { themeParksWiki } from '../lib/themeparks-wiki'
+
+process.env.HTTP_FIXTURE_MODE = 'record'
+
+const QUEUE_TIMES_PARKS = [6, 16]
+const THEMEPARKS_PARKS = ['75ea578a-adc8-4116-a54d-dccb60765ef9', 'afd5e3ca-b078-4e66-bd25-4b7290cf2cea']
+const SCHEDULE_PARKS = ['75ea578a-adc8-4116-a54d-dccb60765ef9']
+// Park lists and every listed park entity; trim to the parks tests/park-mapping-sync pins
+const SYNC_MAPPINGS = [{ name: 'Disneyland Park', queue_times_id: 16, themeparks_id: 'ca888437-ebb4-4d50-aed2-d227f7096968' }]
+const WEATHER_POINTS: Array<[number, number]> = [[28.4177, -81.5812]]
+
+async function main() {
+  const missing: string[] = []
+
+  for (const parkId of QUEUE_TIMES_PARKS) {
+    if (!(await queueTimes.getParkQueueTimes(parkId))) missing.push(`queue-times park ${parkId}`)
+  }
+  for (const parkId of THEMEPARKS_PARKS) {
+    if (!(await themeParksWiki.getParkWaitTimes(parkId))) missing.push(`themeparks park ${parkId}`)
+  }
+  for (const parkId of SCHEDULE_PARKS) {
+    if (!(await themeParksWiki.getParkSchedule(parkId))) missing.push(`themeparks schedule ${parkId}`)
+  }
+  await loadSyncSources(SYNC_MAPPINGS).catch(() => missing.push('park lists'))
+  for (const [lat, lon] of WEATHER_POINTS) {
+    if (!(await openMeteo.getCurrentWeather(lat, lon))) missing.push(`open-meteo ${lat},${lon}`)
+    if (!(await openMeteo.getCurrentWeather(lat, lon, undefined, 72))) missing.push(`open-meteo forecast ${lat},${lon}`)
+  }
+
+  console.log(`Fixtures written to ${getFixtureDir()}`)
+  if (missing.length > 0) {
+    console.error(`Failed to record: ${missing.join(', ')}`)
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
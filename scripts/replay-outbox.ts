@@ -0,0 +1,28 @@
+#!/usr/bin/env tsx
+
+import { drainOutbox, getOutboxDir } from '../lib/outbox'
+
+async function main() {
+  const startedAtMs = Date.now()
+  const results = await drainOutbox()
+
+  const summary = {
+    outboxDir: getOutboxDir(),
+    executionTimeMs: Date.now() - startedAtMs,
+    files: results.length,
+    replayed: results.reduce((sum, result) => sum + result.replayed, 0),
+    remaining: results.reduce((sum, result) => sum + result.remaining, 0),
+    results,
+  }
+
+  console.log(JSON.stringify(summary, null, 2))
+
+  if (summary.remaining > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
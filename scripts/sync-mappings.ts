@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+
+/**
+ * Check mappings.json against the Queue-Times park list and ThemeParks.wiki
+ * destinations: propose entries for unmapped parks and flag stale or dead
+ * ids. Prints a review diff and a JSON summary.
+ * Pass --write to append the proposed entries to the mappings file (flagged
+ * entries are never removed automatically), and --strict to exit non-zero
+ * when any entry is flagged. Ids whose lookup failed are reported as
+ * unresolved and do not fail --strict on their own.
+ */
+
+import * as fs from 'fs'
+import {
+  formatMappingsDiff,
+  loadSyncSources,
+  ParkMappingEntry,
+  proposeParkMappings,
+  validateParkMappings,
+} from '../lib/park-mapping-sync'
+import { DEFAULT_PARK_MAPPINGS_FILE } from '../lib/reference-data'
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(process.env[name] || '', 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.max(min, Math.min(max, parsed))
+}
+
+async function main() {
+  const startedAtMs = Date.now()
+  const write = process.argv.includes('--write')
+  const strict = process.argv.includes('--strict')
+  const file = process.env.PARK_MAPPINGS_FILE || DEFAULT_PARK_MAPPINGS_FILE
+  const options = {
+    minScore: envInt('PARK_MATCH_MIN_SCORE_PCT', 60, 0, 100) / 100,
+    maxDistanceKm: envInt('PARK_MATCH_MAX_DISTANCE_KM', 25, 1, 500),
+  }
+
+  const document = JSON.parse(fs.readFileSync(file, 'utf8'))
+  const mappings: ParkMappingEntry[] = document.parks ?? []
+
+  const sources = await loadSyncSources(mappings)
+  const issues = validateParkMappings(mappings, sources, options)
+  const proposals = proposeParkMappings(mappings, sources, options)
+  const diff = formatMappingsDiff(proposals, issues)
+
+  if (write && proposals.length > 0) {
+    document.parks = [
+      ...mappings,
+      ...proposals.map((proposal) => ({
+        name: proposal.name,
+        queue_times_id: proposal.queue_times_id,
+        themeparks_id: proposal.themeparks_id,
+      })),
+    ]
+    fs.writeFileSync(file, `${JSON.stringify(document, null, 2)}\n`, 'utf8')
+  }
+
+  if (diff.length > 0) console.log(diff.join('\n'))
+
+  const summary = {
+    file,
+    write,
+    executionTimeMs: Date.now() - startedAtMs,
+    mapped: mappings.length,
+    queueTimesParks: sources.queueTimesParks.length,
+    themeparksParks: sources.themeparksParks.length,
+    proposed: proposals.length,
+    flagged: issues.length,
+    dead: issues.filter((issue) => issue.kind === 'themeparks_dead').length,
+    stale: issues.filter((issue) => issue.kind === 'queue_times_missing' || issue.kind === 'themeparks_unlisted').length,
+    unresolved: sources.unresolvedThemeparks.size,
+  }
+
+  console.log(JSON.stringify(summary, null, 2))
+
+  const reportFile = process.env.REPORT_FILE
+  if (reportFile) {
+    const unresolved = Object.fromEntries(sources.unresolvedThemeparks)
+    fs.writeFileSync(reportFile, `${JSON.stringify({ ...summary, proposals, issues, unresolved, diff }, null, 2)}\n`, 'utf8')
+  }
+
+  if (strict && issues.some((issue) => issue.kind !== 'themeparks_unresolved')) process.exit(1)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -163,6 +163,8 @@ async function main() {
     let timedOutParks = 0
     let parksTargeted = 0
     let failedRuns = 0
+    // Each run logs a 'started' row before its outcome; only outcomes count as runs
+    let finishedRuns = 0
 
     for (const row of logs) {
       const tickBucket = String(row.details?.tickBucket ?? row.details?.tick_bucket ?? '')
@@ -182,13 +184,14 @@ async function main() {
       if (targeted != null) parksTargeted += targeted
       if (timedOut != null) timedOutParks += timedOut
       if (row.status === 'failed') failedRuns += 1
+      if (row.status !== 'started') finishedRuns += 1
     }
 
     const observedRuns = runKeysCompleted.size
     const observedAnyRuns = runKeysAll.size
     const coverageRatio = expectedRuns > 0 ? observedRuns / expectedRuns : 0
     const timeoutRate = parksTargeted > 0 ? timedOutParks / parksTargeted : 0
-    const failedRunRatio = logs.length > 0 ? failedRuns / logs.length : 0
+    const failedRunRatio = finishedRuns > 0 ? failedRuns / finishedRuns : 0
 
     summary.coverage = {
       expectedRuns,
@@ -199,6 +202,7 @@ async function main() {
       timedOutParks,
       timeoutRate,
       failedRuns,
+      finishedRuns,
       failedRunRatio,
     }
 
@@ -246,13 +250,13 @@ async function main() {
       checks.push({
         name: 'Failed shard trend',
         status: 'fail',
-        detail: `Failed run ratio ${failedRunRatio.toFixed(3)} (${failedRuns}/${logs.length}) exceeded 0.200.`,
+        detail: `Failed run ratio ${failedRunRatio.toFixed(3)} (${failedRuns}/${finishedRuns}) exceeded 0.200.`,
       })
     } else if (failedRuns > 0) {
       checks.push({
         name: 'Failed shard trend',
         status: 'warn',
-        detail: `Observed failed runs in window (${failedRuns}/${logs.length}).`,
+        detail: `Observed failed runs in window (${failedRuns}/${finishedRuns}).`,
       })
     } else {
       checks.push({
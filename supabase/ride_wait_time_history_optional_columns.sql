@@ -0,0 +1,30 @@
+-- Optional Supabase ride_wait_time_history columns (see README, Extended Columns).
+-- The collector probes each group and only sends the groups whose columns all
+-- exist, so these can be applied one group at a time. Safe to re-run.
+
+-- source: which feed(s) produced the row (queue_times, themeparks or dual)
+alter table ride_wait_time_history
+  add column if not exists source text;
+
+-- aggregation: per-source waits and confidence from dual mode
+alter table ride_wait_time_history
+  add column if not exists queue_times_wait integer,
+  add column if not exists themeparks_wait integer,
+  add column if not exists confidence real;
+
+-- queue_details: single rider, return times and boarding groups from ThemeParks.wiki
+alter table ride_wait_time_history
+  add column if not exists single_rider_wait integer,
+  add column if not exists return_time_state text,
+  add column if not exists return_time_start timestamptz,
+  add column if not exists return_time_end timestamptz,
+  add column if not exists paid_return_time_state text,
+  add column if not exists paid_return_time_start timestamptz,
+  add column if not exists paid_return_time_end timestamptz,
+  add column if not exists paid_return_time_price integer,
+  add column if not exists paid_return_time_currency text,
+  add column if not exists boarding_group_state text,
+  add column if not exists boarding_group_current_start integer,
+  add column if not exists boarding_group_current_end integer,
+  add column if not exists boarding_group_next_allocation timestamptz,
+  add column if not exists boarding_group_estimated_wait integer;
@@ -144,7 +144,7 @@ async function testAPIs() {
     console.log('\n' + '='.repeat(50))
     console.log('✨ Test complete!')
     console.log('\nNext steps:')
-    console.log('1. Run the enhanced collector: npx tsx enhanced-collector.ts')
+    console.log('1. Run the dual-source collector: npm run enhanced')
     console.log('2. Check GitHub Actions: https://github.com/HJSTheJoker/park-metrics-collector/actions')
     console.log('3. Monitor the queue accuracy dashboard in Parkfolio')
     
@@ -0,0 +1,239 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fc from 'fast-check'
+import { WaitTimeAggregator } from '../lib/aggregator'
+
+// Fixed seed keeps property runs reproducible; override with FC_SEED to explore
+fc.configureGlobal({ seed: Number(process.env.FC_SEED ?? 20240601), numRuns: 500 })
+
+const aggregator = new WaitTimeAggregator()
+const CONFIDENCE_VALUES = [0, 0.3, 0.4, 0.5, 0.6, 0.8, 0.9, 1.0]
+const wait = fc.integer({ min: 0, max: 300 })
+const optionalWait = fc.option(wait, { nil: undefined })
+
+// ============================================================
+// aggregateWaitTime / calculateConfidence
+// ============================================================
+
+test('aggregateWaitTime confidence bands (table)', () => {
+  const cases: Array<[string, number | undefined, number | undefined, number, number]> = [
+    // name, queue-times, themeparks, aggregated, confidence
+    ['no data', undefined, undefined, 0, 0],
+    ['queue-times only', 40, undefined, 40, 0.5],
+    ['themeparks only', undefined, 25, 25, 0.5],
+    ['single source reporting zero', 0, undefined, 0, 0.5],
+    ['both zero', 0, 0, 0, 1.0],
+    ['identical', 30, 30, 30, 1.0],
+    ['exactly 10% apart', 95, 105, 100, 1.0],
+    ['within 20%', 90, 110, 99, 0.9],
+    ['exactly 20% apart', 45, 55, 50, 0.9],
+    ['within 30%', 40, 50, 45, 0.8],
+    ['within 50%', 30, 50, 39, 0.6],
+    ['exactly 50% apart', 30, 50, 39, 0.6],
+    ['over 50% apart', 10, 60, 33, 0.4],
+    ['one side zero', 0, 20, 9, 0.4],
+    ['average zero, values differ', -10, 10, -1, 0.3],
+  ]
+
+  for (const [name, queueTime, themeparksTime, aggregated, confidence] of cases) {
+    assert.deepEqual(
+      aggregator.aggregateWaitTime(queueTime, themeparksTime),
+      { aggregated, confidence },
+      name
+    )
+  }
+})
+
+test('aggregateWaitTime weights Queue-Times 0.55 and ThemeParks.wiki 0.45', () => {
+  assert.equal(aggregator.aggregateWaitTime(100, 0).aggregated, 55)
+  assert.equal(aggregator.aggregateWaitTime(0, 100).aggregated, 45)
+  assert.equal(aggregator.aggregateWaitTime(60, 40).aggregated, 51)
+})
+
+test('confidence is always one of the documented scores', () => {
+  fc.assert(
+    fc.property(optionalWait, optionalWait, (queueTime, themeparksTime) => {
+      const { confidence } = aggregator.aggregateWaitTime(queueTime, themeparksTime)
+      return CONFIDENCE_VALUES.includes(confidence)
+    })
+  )
+})
+
+test('confidence does not depend on source order', () => {
+  fc.assert(
+    fc.property(optionalWait, optionalWait, (a, b) => {
+      return aggregator.aggregateWaitTime(a, b).confidence === aggregator.aggregateWaitTime(b, a).confidence
+    })
+  )
+})
+
+test('a single source passes through unchanged at half confidence', () => {
+  fc.assert(
+    fc.property(wait, (value) => {
+      assert.deepEqual(aggregator.aggregateWaitTime(value, undefined), { aggregated: value, confidence: 0.5 })
+      assert.deepEqual(aggregator.aggregateWaitTime(undefined, value), { aggregated: value, confidence: 0.5 })
+    })
+  )
+})
+
+test('agreeing sources aggregate to the shared value at full confidence', () => {
+  fc.assert(
+    fc.property(wait, (value) => {
+      assert.deepEqual(aggregator.aggregateWaitTime(value, value), { aggregated: value, confidence: 1.0 })
+    })
+  )
+})
+
+test('the blended wait stays between the two source values', () => {
+  fc.assert(
+    fc.property(wait, wait, (queueTime, themeparksTime) => {
+      const { aggregated } = aggregator.aggregateWaitTime(queueTime, themeparksTime)
+      return aggregated >= Math.min(queueTime, themeparksTime) && aggregated <= Math.max(queueTime, themeparksTime)
+    })
+  )
+})
+
+test('widening the gap between sources never raises confidence', () => {
+  fc.assert(
+    fc.property(fc.integer({ min: 1, max: 300 }), wait, fc.integer({ min: 0, max: 100 }), (base, gap, extra) => {
+      const closer = aggregator.aggregateWaitTime(base, base + gap).confidence
+      const wider = aggregator.aggregateWaitTime(base, base + gap + extra).confidence
+      return wider <= closer
+    })
+  )
+})
+
+// ============================================================
+// processRideData
+// ============================================================
+
+test('processRideData pairs rides through the mapping and keeps unmatched rides once', () => {
+  const results = aggregator.processRideData(
+    [
+      { id: 1, name: 'Mapped', wait_time: 40, is_open: true },
+      { id: 2, name: 'Mapped to missing ride', wait_time: 15, is_open: false },
+      { id: 3, name: 'Unmapped', wait_time: 5, is_open: true },
+    ],
+    [
+      { id: 'tp-a', name: 'Mapped (TP)', wait_time: 44, is_open: true, single_rider_time: 10 },
+      { id: 'tp-z', name: 'ThemeParks only', wait_time: 20, is_open: false },
+    ],
+    new Map([['1', 'tp-a'], ['2', 'tp-missing']])
+  )
+
+  assert.deepEqual(results, [
+    {
+      rideId: '1',
+      rideName: 'Mapped',
+      queueTimesWait: 40,
+      themeparksWait: 44,
+      aggregatedWait: 42,
+      confidenceScore: 1.0,
+      isOpen: true,
+      status: undefined,
+      singleRiderTime: 10,
+      queueDetails: undefined,
+    },
+    {
+      rideId: '2',
+      rideName: 'Mapped to missing ride',
+      queueTimesWait: 15,
+      themeparksWait: undefined,
+      aggregatedWait: 15,
+      confidenceScore: 0.5,
+      isOpen: false,
+      status: undefined,
+      singleRiderTime: undefined,
+      queueDetails: undefined,
+    },
+    {
+      rideId: '3',
+      rideName: 'Unmapped',
+      queueTimesWait: 5,
+      themeparksWait: undefined,
+      aggregatedWait: 5,
+      confidenceScore: 0.5,
+      isOpen: true,
+      status: undefined,
+      singleRiderTime: undefined,
+      queueDetails: undefined,
+    },
+    {
+      rideId: 'tp-z',
+      rideName: 'ThemeParks only',
+      queueTimesWait: undefined,
+      themeparksWait: 20,
+      aggregatedWait: 20,
+      confidenceScore: 0.5,
+      isOpen: false,
+      status: undefined,
+      singleRiderTime: undefined,
+      queueDetails: undefined,
+    },
+  ])
+})
+
+test('processRideData reports a ride open when either source says it is open', () => {
+  const [ride] = aggregator.processRideData(
+    [{ id: 7, name: 'Flaky', wait_time: 0, is_open: false }],
+    [{ id: 'tp-7', name: 'Flaky', wait_time: 0, is_open: true }],
+    new Map([['7', 'tp-7']])
+  )
+  assert.equal(ride.isOpen, true)
+})
+
+test('processRideData emits one row per Queue-Times ride plus one per unmatched ThemeParks.wiki ride', () => {
+  const rides = fc.uniqueArray(fc.integer({ min: 1, max: 500 }), { maxLength: 30 })
+
+  fc.assert(
+    fc.property(rides, rides, fc.double({ min: 0, max: 1, noNaN: true }), (queueIds, themeparksIds, mappedShare) => {
+      const queueTimesData = queueIds.map((id) => ({ id, name: `QT ${id}`, wait_time: id % 90, is_open: true }))
+      const themeparksData = themeparksIds.map((id) => ({ id: `tp-${id}`, name: `TP ${id}`, wait_time: id % 70, is_open: true }))
+
+      // Map a prefix of the Queue-Times rides onto ThemeParks.wiki ids (which may not exist)
+      const mappedCount = Math.floor(queueIds.length * mappedShare)
+      const mapping = new Map(queueIds.slice(0, mappedCount).map((id) => [String(id), `tp-${id}`]))
+
+      const results = aggregator.processRideData(queueTimesData, themeparksData, mapping)
+      const claimed = new Set(mapping.values())
+      const unmatched = themeparksData.filter((ride) => !claimed.has(ride.id))
+
+      assert.equal(results.length, queueTimesData.length + unmatched.length)
+      assert.deepEqual(
+        results.slice(0, queueTimesData.length).map((ride) => ride.rideId),
+        queueIds.map(String)
+      )
+      assert.equal(new Set(results.map((ride) => ride.rideId)).size, results.length)
+    })
+  )
+})
+
+// ============================================================
+// getConfidenceLevel
+// ============================================================
+
+test('getConfidenceLevel thresholds (table)', () => {
+  const cases: Array<[number, string]> = [
+    [1.0, 'high'],
+    [0.8, 'high'],
+    [0.79, 'medium'],
+    [0.6, 'medium'],
+    [0.59, 'low'],
+    [0.01, 'low'],
+    [0, 'none'],
+  ]
+
+  for (const [score, level] of cases) {
+    assert.equal(aggregator.getConfidenceLevel(score).level, level, `score ${score}`)
+  }
+})
+
+test('getConfidenceLevel is monotonic in the score', () => {
+  const rank = { none: 0, low: 1, medium: 2, high: 3 }
+  fc.assert(
+    fc.property(fc.double({ min: 0, max: 1, noNaN: true }), fc.double({ min: 0, max: 1, noNaN: true }), (a, b) => {
+      const [low, high] = a <= b ? [a, b] : [b, a]
+      return rank[aggregator.getConfidenceLevel(low).level] <= rank[aggregator.getConfidenceLevel(high).level]
+    })
+  )
+})
@@ -0,0 +1,83 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { aggregator } from '../lib/aggregator'
+import { queueTimesProvider, themeParksProvider } from '../lib/providers'
+import { MAGIC_KINGDOM, MAGIC_KINGDOM_RIDE_MAPPINGS, useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+async function magicKingdomSources() {
+  const queueTimesData = await queueTimesProvider.getWaitTimes(MAGIC_KINGDOM)
+  const themeparksData = await themeParksProvider.getWaitTimes(MAGIC_KINGDOM)
+  assert.ok(queueTimesData && themeparksData)
+  return { queueTimesData, themeparksData }
+}
+
+test('processRideData blends mapped rides and scores source agreement', async () => {
+  const { queueTimesData, themeparksData } = await magicKingdomSources()
+  const rides = aggregator.processRideData(queueTimesData, themeparksData, MAGIC_KINGDOM_RIDE_MAPPINGS)
+  const byId = new Map(rides.map((ride) => [ride.rideId, ride]))
+
+  // Five mapped rides and one Queue-Times-only ride; the ThemeParks.wiki-only show is not a ride row
+  assert.equal(rides.length, 6)
+  assert.deepEqual(byId.get('130'), {
+    rideId: '130',
+    rideName: "Peter Pan's Flight",
+    queueTimesWait: 55,
+    themeparksWait: 60,
+    aggregatedWait: 57,
+    confidenceScore: 1.0,
+    isOpen: true,
+    status: 'OPERATING',
+    singleRiderTime: undefined,
+    queueDetails: {
+      return_time_state: 'AVAILABLE',
+      return_time_start: '2026-10-19T15:05:00-04:00',
+      return_time_end: '2026-10-19T16:05:00-04:00',
+    },
+  })
+  assert.equal(byId.get('136')?.aggregatedWait, 72)
+  assert.equal(byId.get('284')?.aggregatedWait, 67)
+  assert.equal(byId.get('284')?.confidenceScore, 1.0)
+  // Queue-Times-only rides carry no queue detail
+  assert.equal(byId.get('142')?.queueDetails, undefined)
+})
+
+test('processRideData treats both sources reporting zero as full agreement', async () => {
+  const { queueTimesData, themeparksData } = await magicKingdomSources()
+  const byId = new Map(
+    aggregator.processRideData(queueTimesData, themeparksData, MAGIC_KINGDOM_RIDE_MAPPINGS).map((ride) => [ride.rideId, ride])
+  )
+
+  assert.deepEqual(
+    [byId.get('1181')?.aggregatedWait, byId.get('1181')?.confidenceScore, byId.get('1181')?.isOpen],
+    [0, 1.0, true]
+  )
+  assert.deepEqual(
+    [byId.get('138')?.aggregatedWait, byId.get('138')?.confidenceScore, byId.get('138')?.isOpen, byId.get('138')?.status],
+    [0, 1.0, false, 'DOWN']
+  )
+})
+
+test('processRideData falls back to a single source at half confidence', async () => {
+  const { queueTimesData, themeparksData } = await magicKingdomSources()
+  const mappings = new Map(MAGIC_KINGDOM_RIDE_MAPPINGS)
+  mappings.delete('284')
+
+  const rides = aggregator.processRideData(queueTimesData, themeparksData, mappings)
+  const byId = new Map(rides.map((ride) => [ride.rideId, ride]))
+
+  // Unmapped Queue-Times ride and its now-unmatched ThemeParks.wiki twin
+  assert.equal(rides.length, 7)
+  assert.deepEqual(
+    [byId.get('284')?.aggregatedWait, byId.get('284')?.themeparksWait, byId.get('284')?.confidenceScore],
+    [65, undefined, 0.5]
+  )
+  const spaceMountain = byId.get('b2260923-9315-40fd-9c6b-44dd811dbe64')
+  assert.deepEqual(
+    [spaceMountain?.aggregatedWait, spaceMountain?.queueTimesWait, spaceMountain?.confidenceScore],
+    [70, undefined, 0.5]
+  )
+  // Rides with no mapping at all stay Queue-Times only
+  assert.equal(byId.get('142')?.confidenceScore, 0.5)
+})
@@ -0,0 +1,220 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { DEFAULT_SOURCE_WEIGHTS } from '../lib/aggregator'
+import { collectAggregatedQueues, collectQueues, withReverseRideMappings } from '../lib/collection'
+import { queueTimesProvider, themeParksProvider, WaitTimeProvider } from '../lib/providers'
+import { MAGIC_KINGDOM, MAGIC_KINGDOM_RIDE_MAPPINGS, useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+const RECORDED_AT = '2026-10-19T18:30:00.000Z'
+const passthrough = (externalId: string | number) => String(externalId)
+
+test('collectQueues maps every Queue-Times ride across lands to a history record', async () => {
+  const { records, ridesCollected } = await collectQueues(MAGIC_KINGDOM, [queueTimesProvider], passthrough, RECORDED_AT)
+
+  assert.equal(ridesCollected, 6)
+  assert.deepEqual(
+    records.map((record) => [record.item_id, record.wait_time, record.is_open]),
+    [
+      ['130', 55, true],
+      ['136', 70, true],
+      ['142', 20, true],
+      ['284', 65, true],
+      ['1181', 0, true],
+      ['138', 0, false],
+    ]
+  )
+  for (const record of records) {
+    assert.equal(record.park_id, 'loc-magic-kingdom')
+    assert.equal(record.source, 'queue_times')
+    assert.equal(record.recorded_at, RECORDED_AT)
+  }
+  assert.equal(new Set(records.map((record) => record.id)).size, records.length)
+})
+
+test('collectQueues drops rides without a metadata id but still counts them', async () => {
+  const metadata = new Map([['284', 'meta-space-mountain']])
+  const { records, ridesCollected } = await collectQueues(
+    MAGIC_KINGDOM,
+    [queueTimesProvider],
+    (externalId) => metadata.get(String(externalId)),
+    RECORDED_AT
+  )
+
+  assert.equal(ridesCollected, 6)
+  assert.equal(records.length, 1)
+  assert.equal(records[0].item_id, 'meta-space-mountain')
+  assert.equal(records[0].wait_time, 65)
+})
+
+test('collectQueues combines providers and tags each record with its source', async () => {
+  const { records, ridesCollected } = await collectQueues(
+    MAGIC_KINGDOM,
+    [queueTimesProvider, themeParksProvider],
+    passthrough,
+    RECORDED_AT
+  )
+
+  assert.equal(ridesCollected, 11)
+  assert.equal(records.filter((record) => record.source === 'queue_times').length, 6)
+  assert.equal(records.filter((record) => record.source === 'themeparks').length, 5)
+})
+
+test('collectQueues skips providers that do not support the location', async () => {
+  const location = { ...MAGIC_KINGDOM, external_id: null, themeparks_id: null }
+  const result = await collectQueues(location, [queueTimesProvider, themeParksProvider], passthrough, RECORDED_AT)
+
+  assert.deepEqual(result, { records: [], ridesCollected: 0 })
+})
+
+test('collectQueues keeps ThemeParks.wiki queue detail on the record', async () => {
+  const { records } = await collectQueues(MAGIC_KINGDOM, [themeParksProvider], passthrough, RECORDED_AT)
+  const sevenDwarfs = records.find((record) => record.item_id === '9d4d5229-7142-44b6-b4fb-528920969a2c')
+
+  assert.equal(sevenDwarfs?.paid_return_time_state, 'AVAILABLE')
+  assert.equal(sevenDwarfs?.paid_return_time_price, 1500)
+  assert.equal(sevenDwarfs?.return_time_state, undefined)
+})
+
+test('collectQueues records the source status, leaving Queue-Times rows without one', async () => {
+  const { records } = await collectQueues(
+    MAGIC_KINGDOM,
+    [queueTimesProvider, themeParksProvider],
+    passthrough,
+    RECORDED_AT
+  )
+  const speedway = records.find((record) => record.item_id === 'f5aad2d4-a419-4384-bd9a-42f86385c750')
+
+  assert.equal(speedway?.status, 'DOWN')
+  assert.ok(records.filter((record) => record.source === 'queue_times').every((record) => record.status === null))
+})
+
+test('collectQueues stamps schedule and local time context on every record', async () => {
+  const { records } = await collectQueues(MAGIC_KINGDOM, [queueTimesProvider], passthrough, RECORDED_AT, undefined, {
+    park_open: true,
+    local_date: '2026-10-19',
+    local_hour: 14,
+  })
+
+  assert.ok(records.length > 0)
+  for (const record of records) {
+    assert.deepEqual(
+      { park_open: record.park_open, local_date: record.local_date, local_hour: record.local_hour },
+      { park_open: true, local_date: '2026-10-19', local_hour: 14 }
+    )
+  }
+})
+
+test('collectAggregatedQueues blends mapped rides and tags each record with the feeds behind it', async () => {
+  const { records, ...counts } = await collectAggregatedQueues(
+    MAGIC_KINGDOM,
+    queueTimesProvider,
+    themeParksProvider,
+    MAGIC_KINGDOM_RIDE_MAPPINGS,
+    passthrough,
+    () => DEFAULT_SOURCE_WEIGHTS,
+    RECORDED_AT
+  )
+
+  assert.deepEqual(
+    counts,
+    {
+      ridesCollected: 11,
+      primaryRides: 6,
+      secondaryRides: 5,
+      aggregated: 6,
+      highConfidence: 5,
+      mediumConfidence: 0,
+      lowConfidence: 1,
+    }
+  )
+  assert.deepEqual(
+    records.map((record) => [
+      record.item_id,
+      record.source,
+      record.wait_time,
+      record.queue_times_wait,
+      record.themeparks_wait,
+      record.confidence,
+    ]),
+    [
+      ['130', 'dual', 57, 55, 60, 1],
+      ['136', 'dual', 72, 70, 75, 1],
+      ['142', 'queue_times', 20, 20, null, 0.5],
+      ['284', 'dual', 67, 65, 70, 1],
+      ['1181', 'dual', 0, 0, 0, 1],
+      ['138', 'dual', 0, 0, 0, 1],
+    ]
+  )
+  assert.equal(records.find((record) => record.item_id === '138')?.status, 'DOWN')
+})
+
+test('collectAggregatedQueues resolves secondary-only rides through the reverse mapping', async () => {
+  const metadata = new Map([['284', 'meta-space-mountain']])
+  const result = await collectAggregatedQueues(
+    { ...MAGIC_KINGDOM, external_id: null },
+    queueTimesProvider,
+    themeParksProvider,
+    MAGIC_KINGDOM_RIDE_MAPPINGS,
+    (externalId) => metadata.get(String(externalId)),
+    () => DEFAULT_SOURCE_WEIGHTS,
+    RECORDED_AT
+  )
+
+  assert.equal(result.primaryRides, 0)
+  assert.equal(result.secondaryRides, 5)
+  assert.deepEqual(
+    result.records.map((record) => [record.item_id, record.source, record.queue_times_wait, record.themeparks_wait]),
+    [['meta-space-mountain', 'themeparks', null, 70]]
+  )
+})
+
+test('collectAggregatedQueues fetches both feeds at once and looks up weights by metadata id', async () => {
+  const started: string[] = []
+  let release = () => {}
+  const gate = new Promise<void>((resolve) => (release = resolve))
+  const gated = (provider: WaitTimeProvider): WaitTimeProvider => ({
+    ...provider,
+    async getWaitTimes(location, signal) {
+      started.push(provider.name)
+      await gate
+      return provider.getWaitTimes(location, signal)
+    },
+  })
+  const metadata = new Map([['284', 'meta-space-mountain']])
+  const weightLookups: Array<string | undefined> = []
+
+  const collection = collectAggregatedQueues(
+    MAGIC_KINGDOM,
+    gated(queueTimesProvider),
+    gated(themeParksProvider),
+    MAGIC_KINGDOM_RIDE_MAPPINGS,
+    (externalId) => metadata.get(String(externalId)),
+    (metadataId) => {
+      weightLookups.push(metadataId)
+      return DEFAULT_SOURCE_WEIGHTS
+    },
+    RECORDED_AT
+  )
+  await new Promise((resolve) => setImmediate(resolve))
+  assert.deepEqual(started, ['queue_times', 'themeparks'])
+
+  release()
+  const { records } = await collection
+  assert.deepEqual(records.map((record) => record.item_id), ['meta-space-mountain'])
+  assert.ok(weightLookups.includes('meta-space-mountain'))
+})
+
+test('withReverseRideMappings prefers a direct metadata match', () => {
+  const metadata = new Map([
+    ['284', 'meta-space-mountain'],
+    ['86a41273-5f15-4b54-93b6-829f140e5161', 'meta-peter-pan-direct'],
+  ])
+  const resolve = withReverseRideMappings((externalId) => metadata.get(String(externalId)), MAGIC_KINGDOM_RIDE_MAPPINGS)
+
+  assert.equal(resolve(284), 'meta-space-mountain')
+  assert.equal(resolve('b2260923-9315-40fd-9c6b-44dd811dbe64'), 'meta-space-mountain')
+  assert.equal(resolve('86a41273-5f15-4b54-93b6-829f140e5161'), 'meta-peter-pan-direct')
+  assert.equal(resolve('unmapped'), undefined)
+})
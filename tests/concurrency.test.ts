@@ -0,0 +1,109 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { HostLimiter, mapWithConcurrency, runWithDeadline } from '../lib/concurrency'
+
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+test('mapWithConcurrency keeps input order and never exceeds the limit', async () => {
+  let active = 0
+  let peak = 0
+  const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delayMs, index) => {
+    active += 1
+    peak = Math.max(peak, active)
+    await new Promise((resolve) => setTimeout(resolve, delayMs))
+    active -= 1
+    return index * 10
+  })
+
+  assert.deepEqual(results, [0, 10, 20, 30, 40])
+  assert.equal(peak, 2)
+})
+
+test('HostLimiter hands released slots to waiters in arrival order', async () => {
+  const limiter = new HostLimiter(1, 0)
+  const order: string[] = []
+
+  await limiter.acquire()
+  const waiters = ['a', 'b', 'c'].map((name) => limiter.acquire().then(() => order.push(name)))
+  await flush()
+  assert.deepEqual(order, [])
+
+  for (let i = 0; i < 3; i += 1) {
+    limiter.release()
+    await flush()
+  }
+  await Promise.all(waiters)
+  assert.deepEqual(order, ['a', 'b', 'c'])
+})
+
+test('HostLimiter spaces request starts by the minimum interval', async () => {
+  const limiter = new HostLimiter(4, 40)
+  const starts: number[] = []
+
+  await Promise.all([0, 1, 2].map(() => limiter.run(async () => starts.push(Date.now()))))
+
+  assert.equal(starts.length, 3)
+  // Timers may fire a millisecond early
+  assert.ok(starts[1] - starts[0] >= 35)
+  assert.ok(starts[2] - starts[1] >= 35)
+})
+
+test('HostLimiter drops an aborted waiter without losing the slot for the next one', async () => {
+  const limiter = new HostLimiter(1, 0)
+  await limiter.acquire()
+
+  const caller = new AbortController()
+  const aborted = limiter.acquire(caller.signal)
+  let nextAcquired = false
+  const next = limiter.acquire().then(() => (nextAcquired = true))
+  await flush()
+
+  caller.abort()
+  await assert.rejects(aborted, /Aborted while waiting for a host slot/)
+  await assert.rejects(limiter.acquire(caller.signal), /Aborted/)
+
+  limiter.release()
+  await next
+  assert.equal(nextAcquired, true)
+  limiter.release()
+  // Every slot is free again
+  await limiter.acquire()
+})
+
+test('HostLimiter releases a slot taken while waiting out the start interval', async () => {
+  const limiter = new HostLimiter(1, 50)
+  await limiter.run(async () => {})
+
+  const caller = new AbortController()
+  const spaced = limiter.acquire(caller.signal)
+  await flush()
+  caller.abort()
+  await assert.rejects(spaced, /Aborted/)
+
+  // A leaked slot would leave this caller queued forever
+  const acquired = await Promise.race([
+    limiter.acquire().then(() => true),
+    new Promise<boolean>((resolve) => setTimeout(resolve, 1000, false).unref()),
+  ])
+  assert.equal(acquired, true)
+})
+
+test('runWithDeadline returns the value when the task finishes in time', async () => {
+  assert.deepEqual(await runWithDeadline(1000, async () => 42), { timedOut: false, value: 42 })
+})
+
+test('runWithDeadline aborts the task signal and settles once the budget is spent', async () => {
+  let taskSignal: AbortSignal | undefined
+  const startedAt = Date.now()
+
+  // The task ignores its signal and would run far past the budget
+  const result = await runWithDeadline(30, async (signal) => {
+    taskSignal = signal
+    await new Promise((resolve) => setTimeout(resolve, 500).unref())
+    return 'late'
+  })
+
+  assert.deepEqual(result, { timedOut: true })
+  assert.equal(taskSignal?.aborted, true)
+  assert.ok(Date.now() - startedAt < 400)
+})
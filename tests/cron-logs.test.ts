@@ -0,0 +1,75 @@
+import { after, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { cronLogDetails, insertCronLog } from '../lib/cron-logs'
+
+process.env.SUPABASE_URL = 'https://supabase.test'
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key'
+
+const realFetch = globalThis.fetch
+const posted: any[] = []
+
+// The service client keeps the fetch it was created with, so stub before the first insert
+globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+  assert.match(String(input), /\/rest\/v1\/cron_logs/)
+  posted.push(JSON.parse(String(init?.body)))
+  return new Response(null, { status: 201 })
+}) as typeof fetch
+
+after(() => {
+  globalThis.fetch = realFetch
+})
+
+const SUMMARY = {
+  success: true,
+  tick_bucket: '2026-10-19T18:30:00.000Z',
+  shard_index: 1,
+  shard_total: 4,
+  coverage_expected_parks: 12,
+  stats: { timedOutParks: 2 },
+}
+
+test('cronLogDetails adds the flat keys the SLO monitor reads', () => {
+  const details = cronLogDetails(SUMMARY)
+
+  assert.equal(details.success, true)
+  assert.equal(details.tick_bucket, SUMMARY.tick_bucket)
+  assert.equal(details.tickBucket, SUMMARY.tick_bucket)
+  assert.equal(details.shardIndex, 1)
+  assert.equal(details.shardTotal, 4)
+  // Falls back to the expected park count when the run did not record its own
+  assert.equal(details.parksTargeted, 12)
+  assert.equal(details.timedOutParks, 2)
+  assert.equal(cronLogDetails({ ...SUMMARY, stats: { parksTargeted: 9 } }).timedOutParks, 0)
+  assert.equal(cronLogDetails({ ...SUMMARY, stats: { parksTargeted: 9 } }).parksTargeted, 9)
+})
+
+test('a run logs a started row and then its outcome with the run details', async () => {
+  const startedAtMs = Date.now() - 1500
+  const startDetails = { tickBucket: SUMMARY.tick_bucket, shardIndex: 1, shardTotal: 4 }
+
+  assert.equal(await insertCronLog('collector', 'started', startDetails, null, startedAtMs), true)
+  assert.equal(await insertCronLog('collector', 'completed', cronLogDetails(SUMMARY), null, startedAtMs), true)
+
+  assert.deepEqual(
+    posted.map((row) => [row.job_name, row.status, row.error_message]),
+    [
+      ['collector', 'started', null],
+      ['collector', 'completed', null],
+    ]
+  )
+  assert.deepEqual(posted[0].details, startDetails)
+  assert.equal(posted[1].details.parksTargeted, 12)
+  assert.ok(posted[1].execution_time_ms >= 1500)
+})
+
+test('insertCronLog skips the write when dual-write is disabled', async () => {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY
+  posted.length = 0
+  try {
+    assert.equal(await insertCronLog('collector', 'failed', {}, 'boom', Date.now()), false)
+  } finally {
+    process.env.SUPABASE_SERVICE_ROLE_KEY = key
+  }
+  assert.deepEqual(posted, [])
+})
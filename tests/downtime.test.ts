@@ -0,0 +1,115 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { deriveDowntimeEvents, StatusSample } from '../lib/downtime'
+
+// Statuses for one ride on consecutive 5-minute ticks from 12:00 UTC
+function ticks(rideId: string, statuses: string[], startMinute = 0): StatusSample[] {
+  return statuses.map((status, index) => ({
+    ride_id: rideId,
+    park_id: 'park-1',
+    recorded_at: new Date(Date.UTC(2026, 9, 19, 12, startMinute + index * 5)).toISOString(),
+    status,
+  }))
+}
+
+test('a DOWN run becomes one event ending at the first OPERATING tick', () => {
+  const [event, ...rest] = deriveDowntimeEvents(
+    ticks('ride-1', ['OPERATING', 'DOWN', 'DOWN', 'DOWN', 'OPERATING', 'OPERATING'])
+  )
+
+  assert.equal(rest.length, 0)
+  assert.equal(event.started_at, '2026-10-19T12:05:00.000Z')
+  assert.equal(event.last_down_at, '2026-10-19T12:15:00.000Z')
+  assert.equal(event.ended_at, '2026-10-19T12:20:00.000Z')
+  assert.equal(event.ended_status, 'OPERATING')
+  assert.equal(event.duration_minutes, 15)
+  assert.equal(event.down_ticks, 3)
+})
+
+test('CLOSED and REFURBISHMENT are not downtime but do end an outage', () => {
+  const events = deriveDowntimeEvents(
+    ticks('ride-1', ['OPERATING', 'DOWN', 'CLOSED', 'CLOSED', 'REFURBISHMENT', 'OPERATING'])
+  )
+
+  assert.equal(events.length, 1)
+  assert.equal(events[0].ended_status, 'CLOSED')
+  assert.equal(events[0].duration_minutes, 5)
+})
+
+test('a ride still down at the latest tick has an open event', () => {
+  const [event] = deriveDowntimeEvents(ticks('ride-1', ['OPERATING', 'DOWN', 'DOWN']))
+
+  assert.equal(event.ended_at, null)
+  assert.equal(event.ended_status, null)
+  assert.equal(event.duration_minutes, null)
+  assert.equal(event.down_ticks, 2)
+})
+
+test('an outage already in progress at the window start is skipped', () => {
+  const events = deriveDowntimeEvents(ticks('ride-1', ['DOWN', 'DOWN', 'OPERATING', 'DOWN', 'OPERATING']))
+
+  assert.equal(events.length, 1)
+  assert.equal(events[0].started_at, '2026-10-19T12:15:00.000Z')
+})
+
+test('a stored open event that started before the window is extended and closed', () => {
+  const stored = deriveDowntimeEvents(ticks('ride-1', ['OPERATING', 'DOWN', 'DOWN']))[0]
+  // The next run's window starts long after the outage began
+  const later = ticks('ride-1', ['DOWN', 'DOWN', 'OPERATING'], 15)
+
+  assert.deepEqual(deriveDowntimeEvents(later), [])
+
+  const [event, ...rest] = deriveDowntimeEvents(later, { openEvents: [stored] })
+  assert.equal(rest.length, 0)
+  assert.equal(event.id, stored.id)
+  assert.equal(event.started_at, '2026-10-19T12:05:00.000Z')
+  assert.equal(event.last_down_at, '2026-10-19T12:20:00.000Z')
+  assert.equal(event.ended_at, '2026-10-19T12:25:00.000Z')
+  assert.equal(event.ended_status, 'OPERATING')
+  assert.equal(event.duration_minutes, 20)
+  assert.equal(event.down_ticks, 4)
+})
+
+test('a stored open event is not double counted when its ticks are still in the window', () => {
+  const samples = ticks('ride-1', ['OPERATING', 'DOWN', 'DOWN'])
+  const stored = deriveDowntimeEvents(samples)[0]
+
+  assert.deepEqual(deriveDowntimeEvents(samples, { openEvents: [stored] }), [])
+  assert.deepEqual(
+    deriveDowntimeEvents([...samples, ...ticks('ride-1', ['DOWN'], 15)], { openEvents: [stored] }).map(
+      (event) => [event.id, event.down_ticks, event.ended_at]
+    ),
+    [[stored.id, 3, null]]
+  )
+})
+
+test('a gap in the data closes the event at the last DOWN tick', () => {
+  const samples = [...ticks('ride-1', ['OPERATING', 'DOWN', 'DOWN']), ...ticks('ride-1', ['DOWN', 'OPERATING'], 120)]
+  const events = deriveDowntimeEvents(samples, { maxGapMinutes: 30 })
+
+  assert.deepEqual(
+    events.map((event) => [event.started_at, event.ended_at, event.ended_status]),
+    [
+      ['2026-10-19T12:05:00.000Z', '2026-10-19T12:10:00.000Z', 'GAP'],
+      ['2026-10-19T14:00:00.000Z', '2026-10-19T14:05:00.000Z', 'OPERATING'],
+    ]
+  )
+})
+
+test('event ids are stable across reruns and duplicate tick rows', () => {
+  const samples = ticks('ride-1', ['OPERATING', 'DOWN', 'OPERATING'])
+  const first = deriveDowntimeEvents(samples)
+  const second = deriveDowntimeEvents([...samples, ...samples])
+
+  assert.equal(first.length, 1)
+  assert.deepEqual(second, first)
+})
+
+test('rides are tracked independently', () => {
+  const events = deriveDowntimeEvents([
+    ...ticks('ride-1', ['OPERATING', 'DOWN', 'OPERATING']),
+    ...ticks('ride-2', ['OPERATING', 'OPERATING', 'DOWN']),
+  ])
+
+  assert.deepEqual(events.map((event) => [event.ride_id, event.ended_status]), [['ride-1', 'OPERATING'], ['ride-2', null]])
+})
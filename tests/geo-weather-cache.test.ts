@@ -0,0 +1,112 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { distanceKm } from '../lib/geo'
+import { GeoWeatherCache } from '../lib/geo-weather-cache'
+import type { WeatherReading } from '../lib/providers'
+import { pickWeatherMeasurements } from '../lib/records'
+
+// Walt Disney World parks and Universal Orlando, from the reference locations
+const MAGIC_KINGDOM = { lat: 28.4177, lon: -81.5812 }
+const EPCOT = { lat: 28.3747, lon: -81.5494 }
+const ANIMAL_KINGDOM = { lat: 28.3553, lon: -81.5901 }
+const UNIVERSAL = { lat: 28.4743, lon: -81.4677 }
+
+function reading(temp: number): WeatherReading {
+  return {
+    ...pickWeatherMeasurements({ temperature: temp, humidity: 60, weather_code: 1 }),
+    timezone: 'America/New_York',
+  }
+}
+
+function countingFetch(temp: number) {
+  const calls: number[] = []
+  return {
+    calls,
+    fetch: async () => {
+      calls.push(temp)
+      return reading(temp)
+    },
+  }
+}
+
+test('distanceKm matches known distances between parks', () => {
+  assert.equal(distanceKm(MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon), 0)
+  assert.ok(Math.abs(distanceKm(MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, EPCOT.lat, EPCOT.lon) - 5.7) < 0.2)
+  assert.ok(distanceKm(MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, UNIVERSAL.lat, UNIVERSAL.lon) > 10)
+})
+
+test('locations within the radius reuse the first fetch and name it as the source', async () => {
+  const cache = new GeoWeatherCache(10)
+  const first = countingFetch(29)
+  const second = countingFetch(30)
+
+  const mk = await cache.getOrFetch('mk', MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, first.fetch)
+  const epcot = await cache.getOrFetch('epcot', EPCOT.lat, EPCOT.lon, second.fetch)
+
+  assert.deepEqual(first.calls, [29])
+  assert.deepEqual(second.calls, [])
+  assert.equal(mk?.sourceLocationId, 'mk')
+  assert.equal(mk?.distanceKm, 0)
+  assert.equal(epcot?.sourceLocationId, 'mk')
+  assert.equal(epcot?.reading.temperature, 29)
+  assert.ok(epcot!.distanceKm > 5 && epcot!.distanceKm < 6)
+  assert.deepEqual(cache.stats, { fetches: 1, shared: 1 })
+})
+
+test('locations outside the radius fetch their own weather', async () => {
+  const cache = new GeoWeatherCache(10)
+  await cache.getOrFetch('mk', MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, countingFetch(29).fetch)
+  const universal = await cache.getOrFetch('universal', UNIVERSAL.lat, UNIVERSAL.lon, countingFetch(31).fetch)
+
+  assert.equal(universal?.sourceLocationId, 'universal')
+  assert.equal(universal?.reading.temperature, 31)
+  assert.deepEqual(cache.stats, { fetches: 2, shared: 0 })
+})
+
+test('a radius of zero disables sharing', async () => {
+  const cache = new GeoWeatherCache(0)
+  await cache.getOrFetch('mk', MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, countingFetch(29).fetch)
+  const mkAgain = await cache.getOrFetch('mk-2', MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, countingFetch(30).fetch)
+
+  assert.equal(mkAgain?.sourceLocationId, 'mk-2')
+  assert.deepEqual(cache.stats, { fetches: 2, shared: 0 })
+})
+
+test('concurrent lookups share an in-flight fetch', async () => {
+  const cache = new GeoWeatherCache(10)
+  let release!: () => void
+  const gate = new Promise<void>((resolve) => {
+    release = resolve
+  })
+  let calls = 0
+  const slowFetch = async () => {
+    calls += 1
+    await gate
+    return reading(28)
+  }
+
+  const pending = [
+    cache.getOrFetch('mk', MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, slowFetch),
+    cache.getOrFetch('epcot', EPCOT.lat, EPCOT.lon, slowFetch),
+    cache.getOrFetch('ak', ANIMAL_KINGDOM.lat, ANIMAL_KINGDOM.lon, slowFetch),
+  ]
+  release()
+  const results = await Promise.all(pending)
+
+  assert.equal(calls, 1)
+  assert.deepEqual(results.map((result) => result?.sourceLocationId), ['mk', 'mk', 'mk'])
+})
+
+test('an empty or failed shared fetch lets the next location fetch for itself', async () => {
+  const cache = new GeoWeatherCache(10)
+  const failed = await cache.getOrFetch('mk', MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, async () => null)
+  const thrown = await cache.getOrFetch('ak', ANIMAL_KINGDOM.lat, ANIMAL_KINGDOM.lon, async () => {
+    throw new Error('aborted')
+  })
+  const epcot = await cache.getOrFetch('epcot', EPCOT.lat, EPCOT.lon, countingFetch(30).fetch)
+
+  assert.equal(failed, null)
+  assert.equal(thrown, null)
+  assert.equal(epcot?.sourceLocationId, 'epcot')
+  assert.deepEqual(cache.stats, { fetches: 3, shared: 0 })
+})
@@ -0,0 +1,30 @@
+import * as path from 'node:path'
+
+export const FIXTURE_DIR = path.resolve(__dirname, '..', 'fixtures', 'http')
+
+/**
+ * Serve every upstream request from fixtures/http; a missing fixture fails
+ * the request instead of reaching the network
+ */
+export function useRecordedFixtures(): void {
+  process.env.HTTP_FIXTURE_MODE = 'replay'
+  process.env.HTTP_FIXTURE_DIR = FIXTURE_DIR
+}
+
+export const MAGIC_KINGDOM = {
+  id: 'loc-magic-kingdom',
+  name: 'Magic Kingdom',
+  external_id: 6,
+  themeparks_id: '75ea578a-adc8-4116-a54d-dccb60765ef9',
+  lat: 28.4177,
+  lon: -81.5812,
+}
+
+// Queue-Times ride id -> ThemeParks.wiki attraction id for the Magic Kingdom fixtures
+export const MAGIC_KINGDOM_RIDE_MAPPINGS = new Map<string, string>([
+  ['130', '86a41273-5f15-4b54-93b6-829f140e5161'], // Peter Pan's Flight
+  ['136', '9d4d5229-7142-44b6-b4fb-528920969a2c'], // Seven Dwarfs Mine Train
+  ['284', 'b2260923-9315-40fd-9c6b-44dd811dbe64'], // Space Mountain
+  ['1181', '5a43d1a7-ad53-4d25-abfe-25625f0da304'], // TRON Lightcycle / Run
+  ['138', 'f5aad2d4-a419-4384-bd9a-42f86385c750'], // Tomorrowland Speedway
+])
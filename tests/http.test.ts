@@ -0,0 +1,80 @@
+import { after, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { fetchWithRetry, parseRetryAfter } from '../lib/http'
+
+// One Queue-Times slot and no start spacing, so a second request has to queue
+process.env.QUEUE_TIMES_MAX_CONCURRENCY = '1'
+process.env.QUEUE_TIMES_MIN_INTERVAL_MS = '0'
+
+const realFetch = globalThis.fetch
+
+after(() => {
+  globalThis.fetch = realFetch
+})
+
+test('fetchWithRetry gives up a queued host slot when the caller aborts', async () => {
+  const requested: string[] = []
+  let finishFirst: () => void = () => {}
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    requested.push(String(input))
+    await new Promise<void>((resolve) => (finishFirst = resolve))
+    return new Response('{}', { status: 200 })
+  }) as typeof fetch
+
+  const first = fetchWithRetry('https://queue-times.com/parks/6/queue_times.json', { retries: 0 })
+  const caller = new AbortController()
+  const queued = fetchWithRetry('https://queue-times.com/parks/5/queue_times.json', { retries: 0, signal: caller.signal })
+
+  await new Promise((resolve) => setImmediate(resolve))
+  caller.abort()
+  await assert.rejects(queued, /Request aborted/)
+
+  finishFirst()
+  assert.equal((await first).status, 200)
+  assert.deepEqual(requested, ['https://queue-times.com/parks/6/queue_times.json'])
+})
+
+test('parseRetryAfter reads delta-seconds and HTTP dates', () => {
+  const nowMs = Date.parse('2026-10-19T18:30:00.000Z')
+
+  assert.equal(parseRetryAfter('120', nowMs), 120_000)
+  assert.equal(parseRetryAfter(' 1.5 ', nowMs), 1500)
+  assert.equal(parseRetryAfter('Mon, 19 Oct 2026 18:30:45 GMT', nowMs), 45_000)
+  // Past dates and negative values mean "retry now"
+  assert.equal(parseRetryAfter('Mon, 19 Oct 2026 18:00:00 GMT', nowMs), 0)
+  assert.equal(parseRetryAfter('-5', nowMs), 0)
+  assert.equal(parseRetryAfter(null, nowMs), null)
+  assert.equal(parseRetryAfter('soon', nowMs), null)
+})
+
+test('fetchWithRetry caps a long Retry-After at 30 seconds', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] })
+  const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+  let calls = 0
+  let bodyCancelled = false
+  const throttledBody = new ReadableStream({
+    cancel() {
+      bodyCancelled = true
+    },
+  })
+  globalThis.fetch = (async () => {
+    calls += 1
+    return calls === 1
+      ? new Response(throttledBody, { status: 429, headers: { 'retry-after': '3600' } })
+      : new Response('{}', { status: 200 })
+  }) as typeof fetch
+
+  // A host without a budget, so no limiter spacing is involved
+  const response = fetchWithRetry('https://example.test/parks.json', { retries: 1 })
+  await flush()
+  t.mock.timers.tick(29_999)
+  await flush()
+  assert.equal(calls, 1)
+  // The retried response's body is released before the backoff
+  assert.equal(bodyCancelled, true)
+
+  t.mock.timers.tick(1)
+  assert.equal((await response).status, 200)
+  assert.equal(calls, 2)
+})
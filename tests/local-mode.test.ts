@@ -0,0 +1,81 @@
+import { after, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  DEFAULT_LOCAL_TURSO_URL,
+  getTursoClient,
+  isDualWriteEnabled,
+  isLocalMode,
+  writeWaitTimesToSupabase,
+  writeWaitTimesToTurso,
+} from '../lib/database-clients'
+import { DEFAULT_PARK_MAPPINGS_FILE, DEFAULT_REFERENCE_FIXTURE, loadReferenceData } from '../lib/reference-data'
+import { runTursoMigrations } from '../lib/turso-migrations'
+
+// Run from a scratch directory so the default local database lands there
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-mode-'))
+process.env.LOCAL_REFERENCE_FILE = path.resolve(DEFAULT_REFERENCE_FIXTURE)
+process.env.PARK_MAPPINGS_FILE = path.resolve(DEFAULT_PARK_MAPPINGS_FILE)
+process.chdir(dir)
+
+process.env.COLLECTOR_LOCAL_MODE = 'true'
+// Present in a developer's shell, but local mode must not use them
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key'
+delete process.env.TURSO_DATABASE_URL
+delete process.env.TURSO_DB_URL
+delete process.env.TURSO_AUTH_TOKEN
+delete process.env.TURSO_TOKEN
+
+after(() => {
+  getTursoClient().close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+test('local mode loads reference data from the bundled fixture', async () => {
+  assert.equal(isLocalMode(), true)
+  assert.equal(isDualWriteEnabled(), false)
+
+  const reference = await loadReferenceData()
+
+  assert.equal(reference.source, 'fixture')
+  assert.equal(reference.passthroughMetadata, true)
+  assert.deepEqual(
+    reference.locations.map((location) => [location.id, location.external_id, location.themeparks_id]),
+    [
+      ['local-magic-kingdom', 6, '75ea578a-adc8-4116-a54d-dccb60765ef9'],
+      ['local-epcot', 5, '1c84a229-8862-4648-9c71-378ddd2c7693'],
+      ['local-disneyland-park', 16, 'ca888437-ebb4-4d50-aed2-d227f7096968'],
+    ]
+  )
+  assert.equal(reference.resolveRideId(130), '130')
+})
+
+test('local mode writes history to the default libSQL file without a token', async () => {
+  assert.equal(DEFAULT_LOCAL_TURSO_URL, 'file:local/collector.db')
+  await runTursoMigrations(getTursoClient())
+  assert.ok(fs.existsSync(path.join(dir, 'local', 'collector.db')))
+
+  const { locations, resolveRideId } = await loadReferenceData()
+  const record = {
+    id: 'local-1',
+    item_id: resolveRideId(130)!,
+    park_id: locations[0].id,
+    wait_time: 55,
+    is_open: true,
+    source: 'queue_times',
+    recorded_at: '2026-10-19T18:30:00.000Z',
+  }
+
+  const result = await writeWaitTimesToTurso([record])
+  assert.equal(result.inserted, 1)
+  assert.deepEqual(result.failedIds, [])
+  assert.equal((await writeWaitTimesToSupabase([record])).skipped, true)
+
+  const { rows } = await getTursoClient().execute('SELECT ride_id, park_id, wait_time FROM ride_wait_time_history')
+  assert.deepEqual(
+    rows.map((row: any) => [row.ride_id, row.park_id, row.wait_time]),
+    [['130', 'local-magic-kingdom', 55]]
+  )
+})
@@ -0,0 +1,77 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { isValidTimeZone, isWithinActiveWindow, localTimeParts, parseActiveWindow } from '../lib/local-time'
+import { checkWaitTimeRecord } from '../lib/records'
+
+test('localTimeParts converts UTC to the park-local date and hour', () => {
+  assert.deepEqual(localTimeParts('2026-10-19T18:30:00.000Z', 'America/New_York'), {
+    local_date: '2026-10-19',
+    local_hour: 14,
+  })
+  // Late evening UTC is already the next day in Tokyo
+  assert.deepEqual(localTimeParts('2026-10-19T18:30:00.000Z', 'Asia/Tokyo'), {
+    local_date: '2026-10-20',
+    local_hour: 3,
+  })
+  // And still the previous day in California just after UTC midnight
+  assert.deepEqual(localTimeParts('2026-10-20T02:15:00.000Z', 'America/Los_Angeles'), {
+    local_date: '2026-10-19',
+    local_hour: 19,
+  })
+})
+
+test('localTimeParts follows daylight saving transitions', () => {
+  // 2026-03-29: Paris moves from UTC+1 to UTC+2 at 01:00 UTC
+  assert.equal(localTimeParts('2026-03-29T00:30:00.000Z', 'Europe/Paris').local_hour, 1)
+  assert.equal(localTimeParts('2026-03-29T01:30:00.000Z', 'Europe/Paris').local_hour, 3)
+})
+
+test('isValidTimeZone accepts IANA names only', () => {
+  assert.equal(isValidTimeZone('America/New_York'), true)
+  assert.equal(isValidTimeZone('Not/A_Zone'), false)
+  assert.equal(isValidTimeZone(''), false)
+  assert.equal(isValidTimeZone(null), false)
+})
+
+test('parseActiveWindow reads HH:MM ranges and treats off as always active', () => {
+  assert.deepEqual(parseActiveWindow('07:00-23:30'), { start: 420, end: 1410 })
+  assert.deepEqual(parseActiveWindow('07:00-24:00'), { start: 420, end: 0 })
+  assert.deepEqual(parseActiveWindow('00:00-24:00'), { start: 0, end: 1440 })
+  assert.equal(parseActiveWindow('off'), null)
+  assert.equal(parseActiveWindow(''), null)
+  assert.throws(() => parseActiveWindow('7am-11pm'), /Invalid active window/)
+  assert.throws(() => parseActiveWindow('07:00-25:00'), /Invalid active window/)
+})
+
+test('isWithinActiveWindow evaluates the window in park-local time', () => {
+  const window = parseActiveWindow('07:00-01:00')!
+  const at = (iso: string) => new Date(iso)
+
+  // 14:30 and 00:30 in Orlando are inside a window that wraps past midnight
+  assert.equal(isWithinActiveWindow(window, at('2026-10-19T18:30:00.000Z'), 'America/New_York'), true)
+  assert.equal(isWithinActiveWindow(window, at('2026-10-20T04:30:00.000Z'), 'America/New_York'), true)
+  // 03:30 in Orlando is not, while the same moment is 00:30 in California
+  assert.equal(isWithinActiveWindow(window, at('2026-10-20T07:30:00.000Z'), 'America/New_York'), false)
+  assert.equal(isWithinActiveWindow(window, at('2026-10-20T07:30:00.000Z'), 'America/Los_Angeles'), true)
+  // End is exclusive
+  assert.equal(isWithinActiveWindow(window, at('2026-10-20T05:00:00.000Z'), 'America/New_York'), false)
+})
+
+test('wait-time validation rejects malformed local time fields', () => {
+  const base = {
+    id: 'r1',
+    item_id: 'ride',
+    park_id: 'park',
+    wait_time: 10,
+    is_open: true,
+    source: 'queue_times',
+    recorded_at: '2026-10-19T18:30:00.000Z',
+  }
+
+  assert.deepEqual(checkWaitTimeRecord({ ...base, local_date: '2026-10-19', local_hour: 14 }), [])
+  assert.deepEqual(checkWaitTimeRecord({ ...base, local_date: null, local_hour: null }), [])
+  assert.deepEqual(checkWaitTimeRecord({ ...base, local_date: '10/19/2026', local_hour: 24 }), [
+    'local_date must be YYYY-MM-DD or null',
+    'local_hour must be an integer 0-23 or null',
+  ])
+})
@@ -0,0 +1,38 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { getWeatherType, OPEN_METEO_VARIABLES, openMeteo } from '../lib/open-meteo'
+import { WEATHER_MEASUREMENT_FIELDS } from '../lib/records'
+import { MAGIC_KINGDOM, useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+test('getCurrentWeather maps every current variable to its weather record field', async () => {
+  const weather = await openMeteo.getCurrentWeather(MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon)
+
+  assert.deepEqual(weather, {
+    temperature: 29.4,
+    feels_like: 32.1,
+    precipitation: 0,
+    precipitation_probability: 0,
+    humidity: 62,
+    wind_speed: 13.7,
+    wind_direction: 95,
+    wind_gusts: 27.4,
+    uv_index: 5.35,
+    weather_code: 2,
+    cloud_cover: 38,
+    visibility: 24140,
+    pressure: 1014.6,
+    timezone: 'America/New_York',
+  })
+  assert.equal(getWeatherType(weather!.weather_code!), 'partly_cloudy')
+})
+
+test('every weather measurement has an Open-Meteo variable', () => {
+  assert.deepEqual(Object.keys(OPEN_METEO_VARIABLES).sort(), [...WEATHER_MEASUREMENT_FIELDS].sort())
+  assert.equal(new Set(Object.values(OPEN_METEO_VARIABLES)).size, WEATHER_MEASUREMENT_FIELDS.length)
+})
+
+test('getCurrentWeather returns null when no fixture was recorded', async () => {
+  assert.equal(await openMeteo.getCurrentWeather(0, 0), null)
+})
@@ -0,0 +1,115 @@
+import { after, before, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { getTursoClient } from '../lib/database-clients'
+import { drainOutbox, enqueueOutbox, listOutboxFiles, quarantineRecords, readOutboxFile } from '../lib/outbox'
+import { WaitTimeRecord } from '../lib/records'
+import { runTursoMigrations } from '../lib/turso-migrations'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'))
+const OUTBOX_DIR = path.join(dir, 'outbox')
+const TICK = '2026-10-19T18:30:00.000Z'
+
+before(async () => {
+  process.env.TURSO_DATABASE_URL = `file:${path.join(dir, 'history.db')}`
+  process.env.COLLECTOR_OUTBOX_DIR = OUTBOX_DIR
+  // One statement per batch so a bad row fails alone
+  process.env.TURSO_BATCH_SIZE = '1'
+  delete process.env.SUPABASE_SERVICE_ROLE_KEY
+  await runTursoMigrations(getTursoClient())
+})
+
+after(() => {
+  getTursoClient().close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function waitRecord(id: string, waitTime: number): WaitTimeRecord {
+  return {
+    id,
+    item_id: 'meta-space-mountain',
+    park_id: 'loc-magic-kingdom',
+    wait_time: waitTime,
+    is_open: true,
+    source: 'queue_times',
+    recorded_at: TICK,
+  }
+}
+
+async function storedWaits(): Promise<Array<[string, number]>> {
+  const { rows } = await getTursoClient().execute('SELECT id, wait_time FROM ride_wait_time_history ORDER BY id')
+  return rows.map((row: any) => [String(row.id), Number(row.wait_time)])
+}
+
+test('enqueueOutbox appends one entry per call to a file per tick, store and kind', () => {
+  assert.equal(enqueueOutbox(TICK, 'turso', 'wait_times', [waitRecord('w1', 10)], 'turso down'), 1)
+  assert.equal(enqueueOutbox(TICK, 'turso', 'wait_times', [waitRecord('w1', 15), waitRecord('w2', 20)], 'turso down'), 2)
+  assert.equal(enqueueOutbox(TICK, 'turso', 'wait_times', [], 'nothing to keep'), 0)
+
+  const files = listOutboxFiles()
+  assert.deepEqual(files.map((file) => path.basename(file)), ['2026-10-19T18-30-00-000Z.turso.wait_times.ndjson'])
+
+  // A torn trailing line from a crash mid-append is skipped
+  fs.appendFileSync(files[0], '{"tickBucket":"2026-10-19T18:3')
+  const entries = readOutboxFile(files[0])
+  assert.deepEqual(entries.map((entry) => [entry.reason, entry.records.length]), [['turso down', 1], ['turso down', 2]])
+})
+
+test('drainOutbox replays the latest copy of each record and removes the file', async () => {
+  const [result] = await drainOutbox()
+
+  assert.equal(result.records, 2)
+  assert.equal(result.replayed, 2)
+  assert.equal(result.remaining, 0)
+  assert.deepEqual(listOutboxFiles(), [])
+  assert.deepEqual(await storedWaits(), [['w1', 15], ['w2', 20]])
+})
+
+test('drainOutbox atomically rewrites a file with only the records that still failed', async () => {
+  // No ride id violates ride_wait_time_history.ride_id NOT NULL
+  const broken = { ...waitRecord('w4', 40), item_id: undefined as unknown as string }
+  enqueueOutbox(TICK, 'turso', 'wait_times', [waitRecord('w3', 30), broken], 'turso down')
+
+  const [result] = await drainOutbox()
+
+  assert.deepEqual([result.replayed, result.remaining], [1, 1])
+  assert.deepEqual(fs.readdirSync(OUTBOX_DIR), [path.basename(result.file)])
+  const entries = readOutboxFile(result.file)
+  assert.equal(entries.length, 1)
+  assert.equal(entries[0].reason, 'replay partially failed')
+  assert.deepEqual(entries[0].records.map((record) => record.id), ['w4'])
+  assert.deepEqual(await storedWaits(), [['w1', 15], ['w2', 20], ['w3', 30]])
+
+  fs.unlinkSync(result.file)
+})
+
+test('drainOutbox keeps Supabase entries while the dual-write is disabled', async () => {
+  enqueueOutbox(TICK, 'supabase', 'wait_times', [waitRecord('s1', 10)], 'supabase down')
+
+  const [result] = await drainOutbox()
+
+  assert.equal(result.skipped, true)
+  assert.equal(result.remaining, 1)
+  assert.deepEqual(listOutboxFiles(), [result.file])
+
+  fs.unlinkSync(result.file)
+})
+
+test('quarantined rows are kept with their reasons and never replayed', async () => {
+  const rejected = [{ record: { ...waitRecord('q1', -5) }, reasons: ['wait_time must be a non-negative number'] }]
+  assert.equal(quarantineRecords(TICK, 'wait_times', rejected), 1)
+  assert.equal(quarantineRecords(TICK, 'wait_times', []), 0)
+
+  const file = path.join(OUTBOX_DIR, 'quarantine', '2026-10-19T18-30-00-000Z.wait_times.ndjson')
+  const [line] = fs.readFileSync(file, 'utf8').trim().split('\n').map((text) => JSON.parse(text))
+  assert.equal(line.tickBucket, TICK)
+  assert.equal(line.kind, 'wait_times')
+  assert.equal(line.record.id, 'q1')
+  assert.deepEqual(line.reasons, ['wait_time must be a non-negative number'])
+
+  assert.deepEqual(listOutboxFiles(), [])
+  assert.deepEqual(await drainOutbox(), [])
+  assert.ok(fs.existsSync(file))
+})
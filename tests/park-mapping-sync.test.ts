@@ -0,0 +1,124 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+  formatMappingsDiff,
+  loadSyncSources,
+  ParkMappingEntry,
+  parkNameSimilarity,
+  proposeParkMappings,
+  validateParkMappings,
+} from '../lib/park-mapping-sync'
+import { useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+const HOLLYWOOD_STUDIOS_ID = '288747d1-8b4f-4a64-867e-ea7c9b27bad8'
+const ANIMAL_KINGDOM_ID = '1c84a229-8862-4648-9c71-378ddd2c7693'
+const DEAD_ID = 'ca888437-ebb4-4d50-aed2-d227f7096968'
+
+// A valid entry, one pointing at the wrong park and one whose entity is gone
+const MAPPINGS: ParkMappingEntry[] = [
+  { name: 'Magic Kingdom', queue_times_id: 6, themeparks_id: '75ea578a-adc8-4116-a54d-dccb60765ef9' },
+  { name: 'EPCOT', queue_times_id: 5, themeparks_id: ANIMAL_KINGDOM_ID },
+  { name: 'Disneyland Park', queue_times_id: 16, themeparks_id: DEAD_ID },
+  { name: 'Closed Park', queue_times_id: 999, themeparks_id: '75ea578a-adc8-4116-a54d-dccb60765ef9' },
+]
+
+test('parkNameSimilarity ignores operator prefixes and park suffixes', () => {
+  assert.equal(parkNameSimilarity('Disney Magic Kingdom', 'Magic Kingdom Park'), 1)
+  assert.equal(parkNameSimilarity('Disney Hollywood Studios', "Disney's Hollywood Studios"), 1)
+  assert.equal(parkNameSimilarity('Epcot', 'EPCOT'), 1)
+  assert.ok(parkNameSimilarity('Epcot', "Disney's Animal Kingdom Theme Park") < 0.3)
+})
+
+test('loadSyncSources reads both park lists and tells dead ids apart', async () => {
+  const sources = await loadSyncSources(MAPPINGS)
+
+  assert.equal(sources.queueTimesParks.length, 6)
+  assert.deepEqual(sources.queueTimesParks.find((park) => park.id === 6), {
+    id: 6,
+    name: 'Disney Magic Kingdom',
+    company: 'Walt Disney Attractions',
+    latitude: 28.417663,
+    longitude: -81.581212,
+    timezone: 'America/New_York',
+  })
+  assert.equal(sources.themeparksParks.length, 5)
+  assert.equal(sources.themeparksParks.find((park) => park.id === HOLLYWOOD_STUDIOS_ID)?.destination, 'Walt Disney World® Resort')
+  assert.deepEqual(Array.from(sources.deadThemeparks), [DEAD_ID])
+})
+
+test('a failed entity lookup marks only that id unresolved', async () => {
+  // No fixture is recorded for this id, so replay fails the request
+  const unreachable = { name: 'Unreachable Park', queue_times_id: 8, themeparks_id: '00000000-0000-4000-8000-000000000000' }
+  const mappings = [...MAPPINGS, unreachable]
+  const sources = await loadSyncSources(mappings)
+
+  assert.deepEqual(Array.from(sources.unresolvedThemeparks.keys()), [unreachable.themeparks_id])
+  assert.match(sources.unresolvedThemeparks.get(unreachable.themeparks_id) ?? '', /No HTTP fixture/)
+  assert.equal(sources.themeparksParks.length, 5)
+  assert.deepEqual(Array.from(sources.deadThemeparks), [DEAD_ID])
+
+  const issues = validateParkMappings(mappings, sources)
+  assert.deepEqual(
+    issues.filter((issue) => issue.queue_times_id === 8).map((issue) => issue.kind),
+    ['themeparks_unresolved']
+  )
+})
+
+test('validateParkMappings flags stale, dead and mismatched entries', async () => {
+  const issues = validateParkMappings(MAPPINGS, await loadSyncSources(MAPPINGS))
+
+  assert.deepEqual(
+    issues.map((issue) => [issue.queue_times_id, issue.kind]),
+    [
+      [5, 'name'],
+      [16, 'themeparks_dead'],
+      [999, 'queue_times_missing'],
+    ]
+  )
+})
+
+test('proposeParkMappings pairs unmapped parks by name and distance, one-to-one', async () => {
+  const sources = await loadSyncSources(MAPPINGS)
+  const proposals = proposeParkMappings(MAPPINGS, sources)
+
+  // Animal Kingdom's entity is already (wrongly) taken by EPCOT, and Disneyland's
+  // Queue-Times id is mapped, so only Hollywood Studios is proposed
+  assert.deepEqual(proposals, [
+    {
+      name: 'Disney Hollywood Studios',
+      queue_times_id: 7,
+      themeparks_id: HOLLYWOOD_STUDIOS_ID,
+      themeparks_name: "Disney's Hollywood Studios",
+      name_score: 1,
+      distance_km: 0.01,
+      score: 0.9999,
+    },
+  ])
+
+  const corrected = MAPPINGS.filter((mapping) => mapping.queue_times_id === 6)
+  const fresh = proposeParkMappings(corrected, sources)
+  assert.deepEqual(
+    fresh.map((proposal) => [proposal.queue_times_id, proposal.themeparks_name]),
+    [
+      [5, 'EPCOT'],
+      [7, "Disney's Hollywood Studios"],
+      [8, "Disney's Animal Kingdom Theme Park"],
+      [16, 'Disneyland Park'],
+    ]
+  )
+})
+
+test('formatMappingsDiff lists additions and flagged entries', async () => {
+  const sources = await loadSyncSources(MAPPINGS)
+  const diff = formatMappingsDiff(proposeParkMappings(MAPPINGS, sources), validateParkMappings(MAPPINGS, sources))
+
+  assert.equal(diff.length, 4)
+  assert.equal(
+    diff[0],
+    `+ {"name":"Disney Hollywood Studios","queue_times_id":7,"themeparks_id":"${HOLLYWOOD_STUDIOS_ID}"}` +
+      ` # Disney's Hollywood Studios, score 0.9999, 0.01 km`
+  )
+  assert.equal(diff[2], `! Disneyland Park (16 -> ${DEAD_ID}): themeparks_dead, entity returned 404`)
+})
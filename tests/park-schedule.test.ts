@@ -0,0 +1,80 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { collectParkSchedule } from '../lib/collection'
+import { isParkOpenAt, toScheduleRecords } from '../lib/park-schedule'
+import type { ThemeParksScheduleEntry } from '../lib/themeparks-wiki'
+import { MAGIC_KINGDOM, useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+const DAY: ThemeParksScheduleEntry[] = [
+  { date: '2026-10-19', type: 'OPERATING', openingTime: '2026-10-19T09:00:00-04:00', closingTime: '2026-10-19T18:00:00-04:00' },
+  { date: '2026-10-19', type: 'INFO', description: 'Parade', openingTime: '2026-10-19T19:00:00-04:00', closingTime: '2026-10-19T20:00:00-04:00' },
+]
+
+test('isParkOpenAt is true inside operating hours', () => {
+  assert.equal(isParkOpenAt(DAY, new Date('2026-10-19T12:00:00-04:00')), true)
+})
+
+test('isParkOpenAt pads opening and closing by the buffer', () => {
+  assert.equal(isParkOpenAt(DAY, new Date('2026-10-19T08:40:00-04:00'), 30), true)
+  assert.equal(isParkOpenAt(DAY, new Date('2026-10-19T18:25:00-04:00'), 30), true)
+  assert.equal(isParkOpenAt(DAY, new Date('2026-10-19T18:25:00-04:00'), 0), false)
+})
+
+test('isParkOpenAt is false overnight and ignores non-operating entries', () => {
+  assert.equal(isParkOpenAt(DAY, new Date('2026-10-19T03:00:00-04:00')), false)
+  assert.equal(isParkOpenAt(DAY, new Date('2026-10-19T19:30:00-04:00')), false)
+})
+
+test('isParkOpenAt returns null when the schedule does not cover the moment', () => {
+  assert.equal(isParkOpenAt([], new Date('2026-10-19T12:00:00-04:00')), null)
+  assert.equal(isParkOpenAt(DAY, new Date('2026-11-01T12:00:00-04:00')), null)
+})
+
+test('toScheduleRecords keeps nearby dates and produces stable ids', () => {
+  const schedule: ThemeParksScheduleEntry[] = [
+    { date: '2026-10-17', type: 'OPERATING', openingTime: '2026-10-17T09:00:00-04:00', closingTime: '2026-10-17T22:00:00-04:00' },
+    ...DAY,
+    { date: '2026-10-21', type: 'OPERATING', openingTime: '2026-10-21T09:00:00-04:00', closingTime: '2026-10-21T22:00:00-04:00' },
+  ]
+
+  const first = toScheduleRecords('loc-1', 'tp-1', schedule, '2026-10-19T18:30:00.000Z')
+  const second = toScheduleRecords('loc-1', 'tp-1', schedule, '2026-10-19T18:35:00.000Z')
+
+  assert.deepEqual(first.map((r) => r.schedule_date), ['2026-10-19', '2026-10-19'])
+  assert.deepEqual(first.map((r) => r.id), second.map((r) => r.id))
+  assert.notEqual(first[0]?.id, first[1]?.id)
+  assert.deepEqual(first[1], {
+    id: first[1]?.id,
+    park_id: 'loc-1',
+    themeparks_id: 'tp-1',
+    schedule_date: '2026-10-19',
+    schedule_type: 'INFO',
+    description: 'Parade',
+    opening_time: '2026-10-19T19:00:00-04:00',
+    closing_time: '2026-10-19T20:00:00-04:00',
+    recorded_at: '2026-10-19T18:30:00.000Z',
+  })
+})
+
+test('collectParkSchedule reads the recorded schedule and decides open state', async () => {
+  const during = await collectParkSchedule(MAGIC_KINGDOM, '2026-10-19T18:30:00.000Z', 30)
+  assert.equal(during.open, true)
+  assert.equal(during.timezone, 'America/New_York')
+  assert.deepEqual(
+    during.records.map((r) => `${r.schedule_date} ${r.schedule_type}`),
+    ['2026-10-18 OPERATING', '2026-10-19 EXTRA_HOURS', '2026-10-19 OPERATING', '2026-10-19 TICKETED_EVENT', '2026-10-20 OPERATING']
+  )
+
+  // After the ticketed event ends (schedule is cached)
+  const overnight = await collectParkSchedule(MAGIC_KINGDOM, '2026-10-20T04:45:00.000Z', 30)
+  assert.equal(overnight.open, false)
+})
+
+test('collectParkSchedule skips parks without a ThemeParks.wiki id', async () => {
+  assert.deepEqual(
+    await collectParkSchedule({ ...MAGIC_KINGDOM, themeparks_id: null }, '2026-10-19T18:30:00.000Z', 30),
+    { open: null, records: [], timezone: null }
+  )
+})
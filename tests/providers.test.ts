@@ -0,0 +1,66 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { collectQueues } from '../lib/collection'
+import {
+  listWaitTimeProviders,
+  parseProviderList,
+  registerWaitTimeProvider,
+  resolveWaitTimeProviders,
+  resolveWeatherProvider,
+  WaitTimeProvider,
+} from '../lib/providers'
+import { MAGIC_KINGDOM } from './helpers'
+
+function fakeProvider(name: string, waitTime: number): WaitTimeProvider {
+  return {
+    name,
+    supports: (location) => location.external_id != null,
+    getWaitTimes: async () => [{ id: `${name}-ride`, name: 'Fake Ride', wait_time: waitTime, is_open: true }],
+  }
+}
+
+test('parseProviderList trims, lowercases and dedupes, falling back when empty', () => {
+  assert.deepEqual(parseProviderList(' Themeparks, queue_times,THEMEPARKS ,', ['queue_times']), ['themeparks', 'queue_times'])
+  assert.deepEqual(parseProviderList(' , ', ['queue_times']), ['queue_times'])
+  assert.deepEqual(parseProviderList(undefined, ['queue_times', 'themeparks']), ['queue_times', 'themeparks'])
+})
+
+test('a registered provider resolves by name in the configured order', async () => {
+  registerWaitTimeProvider(fakeProvider('fake_feed', 42))
+  assert.ok(listWaitTimeProviders().includes('fake_feed'))
+
+  const providers = resolveWaitTimeProviders(parseProviderList('fake_feed,queue_times', []))
+  assert.deepEqual(providers.map((provider) => provider.name), ['fake_feed', 'queue_times'])
+  assert.deepEqual(
+    resolveWaitTimeProviders(['queue_times', 'fake_feed']).map((provider) => provider.name),
+    ['queue_times', 'fake_feed']
+  )
+
+  const { records } = await collectQueues(
+    MAGIC_KINGDOM,
+    [providers[0]],
+    (externalId) => String(externalId),
+    '2026-10-19T18:30:00.000Z'
+  )
+  assert.deepEqual(
+    records.map((record) => [record.item_id, record.wait_time, record.source]),
+    [['fake_feed-ride', 42, 'fake_feed']]
+  )
+})
+
+test('registering a provider under an existing name replaces it', () => {
+  const replacement = fakeProvider('fake_replaced', 1)
+  registerWaitTimeProvider(fakeProvider('fake_replaced', 0))
+  registerWaitTimeProvider(replacement)
+
+  assert.equal(resolveWaitTimeProviders(['fake_replaced'])[0], replacement)
+  assert.equal(listWaitTimeProviders().filter((name) => name === 'fake_replaced').length, 1)
+})
+
+test('unknown provider names fail with the registered list', () => {
+  assert.throws(
+    () => resolveWaitTimeProviders(parseProviderList('queue_times,queue-times', [])),
+    /Unknown wait-time provider "queue-times" \(registered: queue_times, themeparks/
+  )
+  assert.throws(() => resolveWeatherProvider('dark_sky'), /Unknown weather provider "dark_sky" \(registered: open_meteo\)/)
+})
@@ -0,0 +1,132 @@
+import { after, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { quarantineRecords } from '../lib/outbox'
+import {
+  checkWaitTimeRecord,
+  validateWaitTimeRecords,
+  validateWeatherForecastRecords,
+  validateWeatherRecords,
+  WaitTimeRecord,
+} from '../lib/records'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'records-'))
+process.env.COLLECTOR_OUTBOX_DIR = dir
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+const WAIT: WaitTimeRecord = {
+  id: 'w1',
+  item_id: 'meta-space-mountain',
+  park_id: 'loc-magic-kingdom',
+  wait_time: 65,
+  is_open: true,
+  status: 'OPERATING',
+  source: 'queue_times',
+  recorded_at: '2026-10-19T18:30:00.000Z',
+  local_date: '2026-10-19',
+  local_hour: 14,
+}
+
+test('validateWaitTimeRecords keeps valid rows and rejects malformed ones with reasons', () => {
+  const missingRide = { ...WAIT, id: 'w2', item_id: '' }
+  const negativeWait = { ...WAIT, id: 'w3', wait_time: -5, is_open: 'yes' }
+  const { valid, rejected } = validateWaitTimeRecords([WAIT, missingRide, negativeWait, null])
+
+  assert.deepEqual(valid, [WAIT])
+  assert.deepEqual(
+    rejected.map((entry) => entry.reasons),
+    [
+      ['item_id must be a non-empty string'],
+      ['wait_time must be a non-negative number', 'is_open must be a boolean'],
+      ['record must be an object'],
+    ]
+  )
+  assert.equal(rejected[0].record, missingRide)
+})
+
+test('rejected rows are quarantined with their reasons, as the collector does before writing', () => {
+  const { valid, rejected } = validateWaitTimeRecords([WAIT, { ...WAIT, id: 'w2', park_id: null }])
+
+  assert.equal(valid.length, 1)
+  assert.equal(quarantineRecords(WAIT.recorded_at, 'wait_times', rejected), 1)
+  const lines = fs
+    .readFileSync(path.join(dir, 'quarantine', '2026-10-19T18-30-00-000Z.wait_times.ndjson'), 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line))
+  assert.deepEqual(
+    lines.map((line) => [line.kind, line.record.id, line.reasons]),
+    [['wait_times', 'w2', ['park_id must be a non-empty string']]]
+  )
+})
+
+test('checkWaitTimeRecord checks optional columns only when present', () => {
+  assert.deepEqual(checkWaitTimeRecord({ ...WAIT, status: null, local_date: null, local_hour: null }), [])
+  assert.deepEqual(checkWaitTimeRecord({ ...WAIT, source: 'dual', queue_times_wait: 60, themeparks_wait: null, confidence: 1 }), [])
+  assert.deepEqual(
+    checkWaitTimeRecord({
+      ...WAIT,
+      recorded_at: 'yesterday',
+      local_date: '19/10/2026',
+      local_hour: 24,
+      confidence: 1.5,
+      queue_times_wait: Number.NaN,
+      return_time_start: 'noon',
+    }),
+    [
+      'recorded_at must be an ISO timestamp',
+      'local_date must be YYYY-MM-DD or null',
+      'local_hour must be an integer 0-23 or null',
+      'queue_times_wait must be a finite number or null',
+      'return_time_start must be an ISO timestamp or null',
+      'confidence must be between 0 and 1',
+    ]
+  )
+})
+
+test('validateWeatherRecords allows missing measurements but not non-numeric ones', () => {
+  const reading = {
+    id: 'weather-1',
+    location_id: 'loc-magic-kingdom',
+    weather_type: 'Clear sky',
+    temperature: 28.4,
+    precipitation: 0,
+    humidity: null,
+    recorded_at: '2026-10-19T18:30:00.000Z',
+    source: 'open_meteo',
+  }
+  const { valid, rejected } = validateWeatherRecords([reading, { ...reading, id: 'weather-2', temperature: '28' }])
+
+  assert.deepEqual(valid, [reading])
+  assert.deepEqual(rejected[0].reasons, ['temperature must be a finite number or null'])
+})
+
+test('validateWeatherForecastRecords requires both timestamps and a whole lead time', () => {
+  const forecast = {
+    id: 'forecast-1',
+    location_id: 'loc-magic-kingdom',
+    issued_at: '2026-10-19T18:00:00.000Z',
+    forecast_time: '2026-10-19T21:00:00.000Z',
+    lead_hours: 3,
+    temperature: 26,
+    precipitation_probability: 40,
+    weather_code: 61,
+    weather_type: 'Slight rain',
+    source: 'open_meteo',
+  }
+  const { valid, rejected } = validateWeatherForecastRecords([
+    forecast,
+    { ...forecast, id: 'forecast-2', forecast_time: null, lead_hours: 2.5 },
+  ])
+
+  assert.deepEqual(valid, [forecast])
+  assert.deepEqual(rejected[0].reasons, [
+    'forecast_time must be an ISO timestamp',
+    'lead_hours must be a non-negative integer',
+  ])
+})
@@ -0,0 +1,202 @@
+import { after, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  checkReferenceConsistency,
+  clearReferenceCache,
+  loadParkMappings,
+  loadReferenceData,
+  mergeParkMappings,
+  readReferenceSnapshot,
+  saveReferenceSnapshot,
+} from '../lib/reference-data'
+import { MAGIC_KINGDOM } from './helpers'
+
+const realFetch = globalThis.fetch
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reference-data-'))
+const MAPPINGS_FILE = path.join(dir, 'mappings.json')
+const FIXTURE_FILE = path.join(dir, 'reference-data.json')
+
+fs.writeFileSync(
+  MAPPINGS_FILE,
+  JSON.stringify({
+    parks: [
+      { name: 'Magic Kingdom', queue_times_id: 6, themeparks_id: MAGIC_KINGDOM.themeparks_id, timezone: 'America/New_York' },
+      { name: 'Magic Kingdom copy', queue_times_id: 60, themeparks_id: MAGIC_KINGDOM.themeparks_id },
+    ],
+  })
+)
+fs.writeFileSync(
+  FIXTURE_FILE,
+  JSON.stringify({
+    locations: [
+      { id: MAGIC_KINGDOM.id, name: 'Magic Kingdom', external_id: 6, lat: MAGIC_KINGDOM.lat, lon: MAGIC_KINGDOM.lon },
+      { id: 'loc-disneyland', name: 'Disneyland Park', external_id: 16, lat: 33.8121, lon: -117.919 },
+    ],
+    metadata: [
+      { id: 'meta-peter-pan', external_id: 130 },
+      { id: 'meta-space-mountain', external_id: 284 },
+    ],
+    ride_mappings: [
+      { queue_times_id: 130, themeparks_id: '86a41273-5f15-4b54-93b6-829f140e5161' },
+      { queue_times_id: 284, themeparks_id: 'b2260923-9315-40fd-9c6b-44dd811dbe64' },
+      { queue_times_id: 999, themeparks_id: 'b2260923-9315-40fd-9c6b-44dd811dbe64' },
+    ],
+  })
+)
+
+process.env.COLLECTOR_LOCAL_MODE = 'true'
+process.env.LOCAL_REFERENCE_FILE = FIXTURE_FILE
+process.env.PARK_MAPPINGS_FILE = MAPPINGS_FILE
+
+after(() => {
+  globalThis.fetch = realFetch
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+test('mergeParkMappings prefers Supabase rows and records disagreements', () => {
+  const { parkMappings, conflicts } = mergeParkMappings(
+    [
+      { queue_times_id: 6, themeparks_id: 'supabase-mk', timezone: null, active_window: '08:00-23:00' },
+      { queue_times_id: 16, themeparks_id: 'supabase-dl' },
+    ],
+    loadParkMappings()
+  )
+
+  assert.deepEqual(parkMappings.get(6), {
+    themeparks_id: 'supabase-mk',
+    timezone: null,
+    active_window: '08:00-23:00',
+    source: 'supabase',
+  })
+  assert.equal(parkMappings.get(16)?.source, 'supabase')
+  assert.equal(parkMappings.get(60)?.source, 'mappings_file')
+  assert.deepEqual(conflicts, [6])
+})
+
+test('loadReferenceData joins park mappings onto locations and caches the load', async () => {
+  clearReferenceCache()
+  const reference = await loadReferenceData()
+
+  assert.equal(reference.source, 'fixture')
+  assert.deepEqual(
+    reference.locations.map((location) => [location.external_id, location.themeparks_id, location.timezone]),
+    [
+      [6, MAGIC_KINGDOM.themeparks_id, 'America/New_York'],
+      [16, null, null],
+    ]
+  )
+  assert.equal(reference.resolveRideId(130), 'meta-peter-pan')
+
+  assert.equal(await loadReferenceData(), reference)
+  assert.notEqual(await loadReferenceData({ refresh: true }), reference)
+})
+
+test('a malformed park active_window is dropped with one warning at load time', async (t) => {
+  const file = path.join(dir, 'mappings-bad-window.json')
+  fs.writeFileSync(
+    file,
+    JSON.stringify({
+      parks: [
+        { name: 'Magic Kingdom', queue_times_id: 6, themeparks_id: MAGIC_KINGDOM.themeparks_id, active_window: '7am-1am' },
+        { name: 'Disneyland Park', queue_times_id: 16, themeparks_id: 'dl', active_window: '08:00-23:00' },
+      ],
+    })
+  )
+  t.after(() => {
+    process.env.PARK_MAPPINGS_FILE = MAPPINGS_FILE
+    clearReferenceCache()
+  })
+  process.env.PARK_MAPPINGS_FILE = file
+  const warn = t.mock.method(console, 'warn', () => {})
+
+  const reference = await loadReferenceData({ refresh: true })
+
+  assert.deepEqual(
+    reference.locations.map((location) => [location.external_id, location.active_window]),
+    [
+      [6, null],
+      [16, '08:00-23:00'],
+    ]
+  )
+  assert.equal(warn.mock.callCount(), 1)
+  assert.match(String(warn.mock.calls[0].arguments[0]), /invalid active_window for Magic Kingdom \("7am-1am"\)/)
+})
+
+test('checkReferenceConsistency reports orphaned, duplicated and unresolved mappings', async () => {
+  const report = checkReferenceConsistency(await loadReferenceData({ refresh: true }))
+
+  assert.equal(report.dualSourced, 1)
+  assert.deepEqual(report.singleSourced, ['Disneyland Park'])
+  assert.deepEqual(report.parkMappings, { supabase: 0, mappings_file: 2 })
+  assert.deepEqual(
+    report.issues.map((issue) => [issue.kind, issue.key]),
+    [
+      ['park_mapping_orphan', '60'],
+      ['duplicate_park_mapping', MAGIC_KINGDOM.themeparks_id],
+      ['ride_mapping_unresolved', '999'],
+      ['duplicate_ride_mapping', 'b2260923-9315-40fd-9c6b-44dd811dbe64'],
+    ]
+  )
+})
+
+test('reference snapshots round-trip and expire', async () => {
+  const reference = await loadReferenceData({ refresh: true })
+  const file = path.join(dir, 'cache', 'reference.json')
+  saveReferenceSnapshot(file, reference)
+
+  const restored = readReferenceSnapshot(file, 60)
+  assert.ok(restored)
+  assert.equal(restored.source, 'cache')
+  assert.deepEqual(restored.locations, reference.locations)
+  assert.deepEqual(restored.parkMappings, reference.parkMappings)
+  assert.deepEqual(restored.rideMappings, reference.rideMappings)
+  assert.equal(restored.resolveRideId(284), 'meta-space-mountain')
+
+  const stale = JSON.parse(fs.readFileSync(file, 'utf8'))
+  stale.savedAt = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+  fs.writeFileSync(file, JSON.stringify(stale))
+  assert.equal(readReferenceSnapshot(file, 60), null)
+  assert.equal(readReferenceSnapshot(path.join(dir, 'missing.json'), 60), null)
+})
+
+test('only a missing mapping table is treated as empty', async (t) => {
+  const cacheFile = path.join(dir, 'supabase-cache', 'reference.json')
+  t.after(() => {
+    process.env.COLLECTOR_LOCAL_MODE = 'true'
+    delete process.env.REFERENCE_CACHE_FILE
+    delete process.env.SUPABASE_URL
+    delete process.env.SUPABASE_KEY
+    clearReferenceCache()
+  })
+  process.env.COLLECTOR_LOCAL_MODE = 'false'
+  process.env.SUPABASE_URL = 'http://supabase.test'
+  process.env.SUPABASE_KEY = 'anon-key'
+  process.env.REFERENCE_CACHE_FILE = cacheFile
+
+  // PostgREST replies per table; ride_mappings is swapped between cases
+  const timeout = { code: '57014', message: 'canceling statement due to statement timeout' }
+  let rideMappingsReply = (): Response => Response.json(timeout, { status: 500 })
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const table = new URL(String(input)).pathname.split('/').pop()
+    if (table === 'locations') {
+      return Response.json([{ id: MAGIC_KINGDOM.id, name: 'Magic Kingdom', external_id: 6, lat: null, lon: null }])
+    }
+    if (table === 'metadata') return Response.json([{ id: 'meta-peter-pan', external_id: 130 }])
+    if (table === 'ride_mappings') return rideMappingsReply()
+    return Response.json({ code: 'PGRST205', message: `Could not find the table 'public.${table}' in the schema cache` }, { status: 404 })
+  }) as typeof fetch
+
+  await assert.rejects(loadReferenceData({ refresh: true }), /Supabase error fetching ride_mappings: canceling statement/)
+  assert.equal(fs.existsSync(cacheFile), false)
+
+  rideMappingsReply = () => Response.json({ code: '42P01', message: 'relation "public.ride_mappings" does not exist' }, { status: 404 })
+  const reference = await loadReferenceData({ refresh: true })
+  assert.equal(reference.source, 'supabase')
+  assert.equal(reference.rideMappings.size, 0)
+  assert.equal(reference.parkMappings.get(6)?.source, 'mappings_file')
+  assert.ok(fs.existsSync(cacheFile))
+})
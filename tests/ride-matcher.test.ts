@@ -0,0 +1,195 @@
+import { after, before, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { getTursoClient } from '../lib/database-clients'
+import { nameSimilarity, normalizeRideName } from '../lib/names'
+import { queueTimes } from '../lib/queue-times'
+import {
+  markCandidatesSuperseded,
+  MatchableRide,
+  pickPublishableCandidates,
+  proposeRideMatches,
+  readCandidateStatuses,
+  readUnpublishedAcceptedCandidates,
+  RideSourceSample,
+  upsertRideMatchCandidates,
+  waitCorrelation,
+} from '../lib/ride-matcher'
+import { themeParksWiki } from '../lib/themeparks-wiki'
+import { runTursoMigrations } from '../lib/turso-migrations'
+import { MAGIC_KINGDOM, MAGIC_KINGDOM_RIDE_MAPPINGS, useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ride-matcher-'))
+
+before(async () => {
+  process.env.TURSO_DATABASE_URL = `file:${path.join(dir, 'history.db')}`
+  await runTursoMigrations(getTursoClient())
+})
+
+after(() => {
+  getTursoClient().close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+// Hourly ticks where both sources report the same ride, with a little noise
+function pairedSamples(queueTimesId: string, themeparksId: string, waits: number[]): RideSourceSample[] {
+  return waits.flatMap((wait, index) => {
+    const recorded_at = new Date(Date.UTC(2026, 9, 18, 0) + index * 3_600_000).toISOString()
+    const tick = { park_id: MAGIC_KINGDOM.id, recorded_at, is_open: true }
+    return [
+      { ...tick, source: 'queue_times' as const, source_ride_id: queueTimesId, wait_time: wait },
+      { ...tick, source: 'themeparks' as const, source_ride_id: themeparksId, wait_time: wait + (index % 3) * 5 },
+    ]
+  })
+}
+
+test('normalizeRideName drops case, accents, trademarks, punctuation and articles', () => {
+  assert.equal(normalizeRideName("Peter Pan's Flight™"), 'peter pans flight')
+  assert.equal(normalizeRideName('The Twilight Zone Tower of Terror'), 'twilight zone tower of terror')
+  assert.equal(normalizeRideName('Rémy’s Ratatouille Adventure'), 'remys ratatouille adventure')
+  assert.equal(normalizeRideName('TRON Lightcycle / Run'), 'tron lightcycle run')
+  assert.equal(normalizeRideName('Frozen Ever After & Friends'), 'frozen ever after and friends')
+})
+
+test('nameSimilarity scores renamed variants above unrelated rides', () => {
+  assert.equal(nameSimilarity("Peter Pan's Flight", 'Peter Pans Flight'), 1)
+  assert.ok(nameSimilarity('Space Mountain', 'Space Mountain presented by Sponsor') >= 0.9)
+  assert.ok(nameSimilarity('Seven Dwarfs Mine Train', 'Seven Dwarf Mine Train') > 0.9)
+  assert.ok(nameSimilarity('Space Mountain', 'Big Thunder Mountain Railroad') < 0.5)
+  assert.ok(nameSimilarity("it's a small world", "Mickey's PhilharMagic") < 0.3)
+})
+
+test('waitCorrelation needs enough paired samples with variance', () => {
+  const rising = Array.from({ length: 24 }, (_, i): [number, number] => [i * 5, i * 5 + 10])
+  assert.equal(waitCorrelation(rising), 1)
+  assert.equal(waitCorrelation(rising.slice(0, 10)), null)
+  assert.equal(waitCorrelation(rising.map(([x]): [number, number] => [x, 30])), null)
+})
+
+test('proposeRideMatches recovers the curated Magic Kingdom mappings from the fixtures', async () => {
+  const queueTimesRides = await queueTimes.getParkQueueTimes(MAGIC_KINGDOM.external_id)
+  const themeparksRides = await themeParksWiki.getParkWaitTimes(MAGIC_KINGDOM.themeparks_id)
+  assert.ok(queueTimesRides && themeparksRides)
+  assert.ok(queueTimesRides.every((ride) => ride.land), 'Queue-Times rides keep their land')
+
+  const matches = proposeRideMatches(
+    MAGIC_KINGDOM.id,
+    queueTimesRides.map((ride) => ({ id: String(ride.id), name: ride.name, land: ride.land })),
+    themeparksRides.map((ride) => ({ id: ride.id, name: ride.name, entity_type: ride.entityType }))
+  )
+
+  assert.deepEqual(
+    new Map(matches.map((match) => [match.queue_times_id, match.themeparks_id])),
+    MAGIC_KINGDOM_RIDE_MAPPINGS
+  )
+  assert.ok(matches.every((match) => match.status === 'auto_accepted' && match.correlation_score === null))
+})
+
+test('correlated waits raise a candidate past the auto-accept threshold', () => {
+  const queueTimesRides: MatchableRide[] = [{ id: '1', name: 'Big Thunder Mountain Railroad', land: 'Frontierland' }]
+  const themeparksRides: MatchableRide[] = [{ id: 'btmrr', name: 'Big Thunder Mtn Railroad', entity_type: 'ATTRACTION' }]
+  const waits = Array.from({ length: 30 }, (_, i) => 10 + ((i * 7) % 45))
+  const options = { autoAcceptScore: 0.85 }
+
+  const [withoutHistory] = proposeRideMatches(MAGIC_KINGDOM.id, queueTimesRides, themeparksRides, [], options)
+  const [withHistory] = proposeRideMatches(
+    MAGIC_KINGDOM.id,
+    queueTimesRides,
+    themeparksRides,
+    pairedSamples('1', 'btmrr', waits),
+    options
+  )
+
+  assert.equal(withoutHistory.status, 'pending')
+  assert.equal(withHistory.correlation_samples, 30)
+  assert.ok(withHistory.correlation_score! > 0.9)
+  assert.ok(withHistory.score > withoutHistory.score)
+  assert.equal(withHistory.status, 'auto_accepted')
+})
+
+test('show lands pair with SHOW entities, assignment is one-to-one and rejected pairs are skipped', () => {
+  const queueTimesRides: MatchableRide[] = [
+    { id: '10', name: 'Festival of Fantasy Parade', land: 'Parades' },
+    { id: '11', name: 'Festival of Fantasy', land: 'Fantasyland' },
+  ]
+  const themeparksRides: MatchableRide[] = [{ id: 'parade', name: 'Festival of Fantasy Parade', entity_type: 'SHOW' }]
+
+  const matches = proposeRideMatches(MAGIC_KINGDOM.id, queueTimesRides, themeparksRides)
+  assert.deepEqual(matches.map((match) => match.queue_times_id), ['10'])
+  assert.equal(matches[0].context_score, 1)
+
+  const afterRejection = proposeRideMatches(MAGIC_KINGDOM.id, queueTimesRides, themeparksRides, [], {
+    rejected: new Set(['10|parade']),
+  })
+  assert.deepEqual(afterRejection.map((match) => match.queue_times_id), ['11'])
+})
+
+test('upsertRideMatchCandidates keeps reviewer decisions and lists accepted pairs to publish', async () => {
+  const client = getTursoClient()
+  const [candidate] = proposeRideMatches(
+    MAGIC_KINGDOM.id,
+    [{ id: '142', name: "it's a small world", land: 'Fantasyland' }],
+    [{ id: 'small-world', name: "It's A Small World", entity_type: 'ATTRACTION' }],
+    [],
+    { autoAcceptScore: 1.1 }
+  )
+  assert.equal(candidate.status, 'pending')
+
+  await upsertRideMatchCandidates(client, [candidate])
+  assert.deepEqual(await readUnpublishedAcceptedCandidates(client), [])
+
+  await client.execute(`UPDATE ride_mapping_candidates SET status = 'accepted' WHERE queue_times_id = '142'`)
+  await upsertRideMatchCandidates(client, [{ ...candidate, score: 0.97 }])
+
+  const statuses = await readCandidateStatuses(client)
+  assert.equal(statuses.get('142|small-world'), 'accepted')
+  assert.deepEqual(await readUnpublishedAcceptedCandidates(client), [
+    { queue_times_id: '142', themeparks_id: 'small-world', status: 'accepted', score: 0.97 },
+  ])
+})
+
+test('accepted pairs sharing a Queue-Times ride publish once and the rest are superseded', async () => {
+  const client = getTursoClient()
+  const pair = (themeparksId: string, score: number) => ({
+    park_id: MAGIC_KINGDOM.id,
+    queue_times_id: '457',
+    themeparks_id: themeparksId,
+    queue_times_name: 'Haunted Mansion',
+    themeparks_name: 'Haunted Mansion',
+    name_score: 1,
+    context_score: 1,
+    correlation_score: null,
+    correlation_samples: 0,
+    score,
+    status: 'auto_accepted' as const,
+  })
+  await upsertRideMatchCandidates(client, [pair('mansion-a', 0.95), pair('mansion-b', 0.99), pair('mansion-c', 0.92)])
+  await client.execute(`UPDATE ride_mapping_candidates SET status = 'accepted' WHERE themeparks_id = 'mansion-c'`)
+
+  const accepted = (await readUnpublishedAcceptedCandidates(client)).filter((row) => row.queue_times_id === '457')
+  const { publish, superseded } = pickPublishableCandidates(accepted)
+  assert.deepEqual(publish.map((row) => row.themeparks_id), ['mansion-c'])
+  assert.deepEqual(superseded.map((row) => row.themeparks_id).sort(), ['mansion-a', 'mansion-b'])
+  // Without a reviewer decision the higher score wins
+  assert.deepEqual(
+    pickPublishableCandidates(accepted.filter((row) => row.status === 'auto_accepted')).publish.map((row) => row.themeparks_id),
+    ['mansion-b']
+  )
+
+  await markCandidatesSuperseded(client, superseded)
+  // A later run re-proposing a superseded pair does not revive it
+  await upsertRideMatchCandidates(client, [pair('mansion-b', 0.99)])
+  const statuses = await readCandidateStatuses(client)
+  assert.equal(statuses.get('457|mansion-a'), 'superseded')
+  assert.equal(statuses.get('457|mansion-b'), 'superseded')
+  assert.deepEqual(
+    (await readUnpublishedAcceptedCandidates(client))
+      .filter((row) => row.queue_times_id === '457')
+      .map((row) => row.themeparks_id),
+    ['mansion-c']
+  )
+})
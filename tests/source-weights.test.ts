@@ -0,0 +1,115 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { createClient } from '@libsql/client'
+import { DEFAULT_SOURCE_WEIGHTS, WaitTimeAggregator } from '../lib/aggregator'
+import {
+  computeSourceWeights,
+  loadSourceWeights,
+  replaceSourceWeights,
+  SourceWeightSample,
+  SourceWeightTable,
+} from '../lib/source-weights'
+import { runTursoMigrations } from '../lib/turso-migrations'
+
+// A day-shaped wait curve sampled every 5 minutes
+function trueWait(tick: number): number {
+  return Math.round(40 + 30 * Math.sin(tick / 12))
+}
+
+function series(
+  parkId: string,
+  rideId: string,
+  ticks: number,
+  queueTimes: (tick: number) => number,
+  themeparks: (tick: number) => number
+): SourceWeightSample[] {
+  return Array.from({ length: ticks }, (_, tick) => ({
+    park_id: parkId,
+    ride_id: rideId,
+    recorded_at: new Date(Date.UTC(2026, 9, 1, 12) + tick * 5 * 60 * 1000).toISOString(),
+    queue_times_wait: queueTimes(tick),
+    themeparks_wait: themeparks(tick),
+  }))
+}
+
+test('a source lagging a few ticks behind loses weight', () => {
+  const samples = series('park-1', 'ride-1', 120, trueWait, (tick) => trueWait(Math.max(0, tick - 3)))
+  const [ride, park] = computeSourceWeights(samples, { minSamples: 50 })
+
+  assert.equal(ride.ride_id, 'ride-1')
+  assert.equal(park.ride_id, '')
+  assert.ok(ride.queue_times_error < ride.themeparks_error)
+  assert.ok(ride.queue_times_weight > DEFAULT_SOURCE_WEIGHTS.queueTimes)
+  assert.equal(Number((ride.queue_times_weight + ride.themeparks_weight).toFixed(4)), 1)
+})
+
+test('weights are clamped so neither source is dropped', () => {
+  const samples = series('park-1', 'ride-1', 60, trueWait, (tick) => trueWait(tick) + (tick % 2 === 0 ? 40 : -40))
+  const [ride] = computeSourceWeights(samples, { minSamples: 10, minWeight: 0.2 })
+
+  assert.equal(ride.queue_times_weight, 0.8)
+  assert.equal(ride.themeparks_weight, 0.2)
+})
+
+test('rides below the sample floor only feed the park-wide weights', () => {
+  const samples = [
+    ...series('park-1', 'busy', 40, trueWait, trueWait),
+    ...series('park-1', 'quiet', 20, trueWait, trueWait),
+  ]
+  const rows = computeSourceWeights(samples, { minSamples: 30 })
+
+  assert.deepEqual(rows.map((row) => [row.ride_id, row.samples]), [['busy', 40], ['', 60]])
+})
+
+test('SourceWeightTable falls back from ride to park to defaults', () => {
+  const table = new SourceWeightTable([
+    { park_id: 'park-1', ride_id: 'ride-1', queue_times_weight: 0.7, themeparks_weight: 0.3 },
+    { park_id: 'park-1', ride_id: '', queue_times_weight: 0.4, themeparks_weight: 0.6 },
+  ])
+
+  assert.deepEqual(table.forRide('park-1', 'ride-1'), { queueTimes: 0.7, themeparks: 0.3 })
+  assert.deepEqual(table.forRide('park-1', 'ride-2'), { queueTimes: 0.4, themeparks: 0.6 })
+  assert.deepEqual(table.forRide('park-1', undefined), { queueTimes: 0.4, themeparks: 0.6 })
+  assert.deepEqual(table.forRide('park-2', 'ride-1'), DEFAULT_SOURCE_WEIGHTS)
+})
+
+test('processRideData blends with the weights resolved for each ride', () => {
+  const aggregator = new WaitTimeAggregator()
+  const [ride] = aggregator.processRideData(
+    [{ id: 1, name: 'Lagging TP', wait_time: 60, is_open: true }],
+    [{ id: 'tp-1', name: 'Lagging TP', wait_time: 40, is_open: true }],
+    new Map([['1', 'tp-1']]),
+    () => ({ queueTimes: 0.8, themeparks: 0.2 })
+  )
+
+  assert.equal(ride.aggregatedWait, 56)
+})
+
+test('source weights round-trip through a migrated libSQL database', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-weights-'))
+  const client = createClient({ url: `file:${path.join(dir, 'test.db')}` })
+
+  try {
+    await runTursoMigrations(client)
+    const rows = computeSourceWeights(
+      series('park-1', 'ride-1', 60, trueWait, (tick) => trueWait(Math.max(0, tick - 2))),
+      { minSamples: 50 }
+    )
+
+    await replaceSourceWeights(client, rows)
+    await replaceSourceWeights(client, rows)
+    const table = await loadSourceWeights(client)
+
+    assert.equal(table.size, 2)
+    assert.deepEqual(table.forRide('park-1', 'ride-1'), {
+      queueTimes: rows[0].queue_times_weight,
+      themeparks: rows[0].themeparks_weight,
+    })
+  } finally {
+    client.close()
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+})
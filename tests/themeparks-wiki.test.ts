@@ -0,0 +1,135 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { themeParksWiki } from '../lib/themeparks-wiki'
+import { useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+const MAGIC_KINGDOM_ID = '75ea578a-adc8-4116-a54d-dccb60765ef9'
+const ISLANDS_OF_ADVENTURE_ID = 'afd5e3ca-b078-4e66-bd25-4b7290cf2cea'
+
+async function simpleRides(parkId: string) {
+  const attractions = await themeParksWiki.getParkWaitTimes(parkId)
+  assert.ok(attractions, `expected live data for ${parkId}`)
+  return attractions.map((attraction) => themeParksWiki.convertToSimpleFormat(attraction))
+}
+
+test('convertToSimpleFormat reads standby waits and operating status', async () => {
+  const rides = await simpleRides(MAGIC_KINGDOM_ID)
+
+  assert.equal(rides.length, 6)
+  assert.deepEqual(rides[0], {
+    id: '86a41273-5f15-4b54-93b6-829f140e5161',
+    name: "Peter Pan's Flight",
+    wait_time: 60,
+    is_open: true,
+    status: 'OPERATING',
+    single_rider_time: undefined,
+    queue_details: {
+      return_time_state: 'AVAILABLE',
+      return_time_start: '2026-10-19T15:05:00-04:00',
+      return_time_end: '2026-10-19T16:05:00-04:00',
+    },
+  })
+  assert.equal(rides[1]?.wait_time, 75)
+  assert.equal(rides[2]?.wait_time, 70)
+})
+
+test('convertToSimpleFormat keeps rides without a standby queue at zero wait', async () => {
+  const rides = await simpleRides(MAGIC_KINGDOM_ID)
+
+  // Boarding-group only
+  assert.deepEqual(
+    { wait_time: rides[3]?.wait_time, is_open: rides[3]?.is_open },
+    { wait_time: 0, is_open: true }
+  )
+  // DOWN with a null standby wait keeps its status
+  assert.deepEqual(
+    { wait_time: rides[4]?.wait_time, is_open: rides[4]?.is_open, status: rides[4]?.status },
+    { wait_time: 0, is_open: false, status: 'DOWN' }
+  )
+})
+
+test('convertToSimpleFormat keeps closed and down attractions with no wait data as closed rows', async () => {
+  const islands = await simpleRides(ISLANDS_OF_ADVENTURE_ID)
+  assert.deepEqual(
+    { wait_time: islands[2]?.wait_time, is_open: islands[2]?.is_open, status: islands[2]?.status },
+    { wait_time: 0, is_open: false, status: 'CLOSED' }
+  )
+  // DOWN with null standby and single rider waits
+  assert.deepEqual(
+    { name: islands[3]?.name, wait_time: islands[3]?.wait_time, is_open: islands[3]?.is_open, status: islands[3]?.status },
+    { name: 'Harry Potter and the Forbidden Journey', wait_time: 0, is_open: false, status: 'DOWN' }
+  )
+})
+
+test('getParkWaitTimes drops restaurants and convertToSimpleFormat keeps only attractions', async () => {
+  const attractions = await themeParksWiki.getParkWaitTimes(MAGIC_KINGDOM_ID)
+  assert.ok(attractions)
+  assert.deepEqual(
+    attractions.map((attraction) => attraction.entityType),
+    ['ATTRACTION', 'ATTRACTION', 'ATTRACTION', 'ATTRACTION', 'ATTRACTION', 'SHOW']
+  )
+
+  // A closed show is listed for ride matching but is not a ride row
+  const rides = await simpleRides(MAGIC_KINGDOM_ID)
+  assert.equal(rides[5], null)
+  const restaurant = {
+    id: 'a4ca9dd8-3b4e-4a8b-9a49-d1e9dd0f2cd5',
+    name: "Cosmic Ray's Starlight Cafe",
+    entityType: 'RESTAURANT' as const,
+    parkId: MAGIC_KINGDOM_ID,
+    status: 'OPERATING' as const,
+    queue: { STANDBY: { waitTime: 15 } },
+  }
+  assert.equal(themeParksWiki.convertToSimpleFormat(restaurant), null)
+})
+
+test('convertToSimpleFormat skips entities with neither a status nor a wait', async () => {
+  const islands = await simpleRides(ISLANDS_OF_ADVENTURE_ID)
+  assert.equal(islands.length, 5)
+  assert.equal(islands[4], null)
+})
+
+test('convertToSimpleFormat carries single rider waits when present', async () => {
+  const [velocicoaster, hulk] = await simpleRides(ISLANDS_OF_ADVENTURE_ID)
+
+  assert.equal(velocicoaster?.wait_time, 85)
+  assert.equal(velocicoaster?.single_rider_time, 30)
+  assert.equal(hulk?.wait_time, 35)
+  assert.equal(hulk?.single_rider_time, undefined)
+})
+
+test('convertToSimpleFormat captures paid return times and boarding groups', async () => {
+  const rides = await simpleRides(MAGIC_KINGDOM_ID)
+
+  assert.deepEqual(rides[1]?.queue_details, {
+    paid_return_time_state: 'AVAILABLE',
+    paid_return_time_start: '2026-10-19T15:30:00-04:00',
+    paid_return_time_end: '2026-10-19T16:30:00-04:00',
+    paid_return_time_price: 1500,
+    paid_return_time_currency: 'USD',
+  })
+  // A finished return-time queue keeps its state with no window
+  assert.deepEqual(rides[2]?.queue_details, {
+    return_time_state: 'FINISHED',
+    return_time_start: null,
+    return_time_end: null,
+  })
+  assert.deepEqual(rides[3]?.queue_details, {
+    boarding_group_state: 'CLOSED',
+    boarding_group_current_start: 61,
+    boarding_group_current_end: 75,
+    boarding_group_next_allocation: null,
+    boarding_group_estimated_wait: 35,
+  })
+  // Standby only: nothing beyond the standby wait to record
+  assert.equal(rides[4]?.queue_details, undefined)
+})
+
+test('convertToSimpleFormat records single rider waits, including unavailable ones', async () => {
+  const [velocicoaster, hulk] = await simpleRides(ISLANDS_OF_ADVENTURE_ID)
+
+  assert.deepEqual(velocicoaster?.queue_details, { single_rider_wait: 30 })
+  assert.deepEqual(hulk?.queue_details, { single_rider_wait: null })
+})
@@ -0,0 +1,119 @@
+import { after, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { Client, createClient } from '@libsql/client'
+import { getMigrationStatus, loadMigrations, runTursoMigrations, splitStatements } from '../lib/turso-migrations'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turso-migrations-'))
+const clients: Client[] = []
+
+after(() => {
+  for (const client of clients) client.close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function openDatabase(name: string): Client {
+  const client = createClient({ url: `file:${path.join(dir, name)}` })
+  clients.push(client)
+  return client
+}
+
+async function columnNames(client: Client, table: string): Promise<string[]> {
+  const { rows } = await client.execute(`PRAGMA table_info(${table})`)
+  return rows.map((row: any) => String(row.name))
+}
+
+test('splitStatements strips comments and splits on semicolons', () => {
+  const sql = [
+    '-- Header comment; with a semicolon',
+    'CREATE TABLE a (id TEXT); -- trailing comment',
+    '',
+    'CREATE INDEX a_id',
+    '  ON a (id);',
+    ';',
+  ].join('\n')
+
+  assert.deepEqual(splitStatements(sql), ['CREATE TABLE a (id TEXT)', 'CREATE INDEX a_id\n  ON a (id)'])
+})
+
+test('loadMigrations reads migrations/ in version order', () => {
+  const versions = loadMigrations().map((migration) => migration.version)
+
+  assert.equal(versions[0], '0001')
+  assert.deepEqual(versions, [...versions].sort())
+  assert.equal(new Set(versions).size, versions.length)
+})
+
+test('migrations apply once and are recorded in schema_migrations', async () => {
+  const client = openDatabase('fresh.db')
+
+  const first = await runTursoMigrations(client)
+  assert.deepEqual(first, loadMigrations().map((migration) => migration.version))
+
+  const second = await runTursoMigrations(client)
+  assert.deepEqual(second, [])
+
+  const { rows } = await client.execute('SELECT version FROM schema_migrations ORDER BY version')
+  assert.deepEqual(rows.map((row: any) => String(row.version)), first)
+  const status = await getMigrationStatus(client)
+  assert.ok(status.every((entry) => entry.applied && !entry.checksumMismatch))
+})
+
+test('an applied migration whose file changed is flagged and not re-run', async (t) => {
+  const client = openDatabase('edited.db')
+  const migrationsDir = path.join(dir, 'edited-migrations')
+  fs.mkdirSync(migrationsDir)
+  fs.writeFileSync(path.join(migrationsDir, '0001_notes.sql'), 'CREATE TABLE notes (id TEXT PRIMARY KEY);\n')
+  fs.writeFileSync(path.join(migrationsDir, 'README.md'), 'not a migration')
+  assert.deepEqual(await runTursoMigrations(client, migrationsDir), ['0001'])
+
+  fs.writeFileSync(path.join(migrationsDir, '0001_notes.sql'), 'CREATE TABLE notes (id TEXT PRIMARY KEY, body TEXT);\n')
+  const warn = t.mock.method(console, 'warn', () => {})
+
+  assert.deepEqual(await runTursoMigrations(client, migrationsDir), [])
+  assert.equal(warn.mock.callCount(), 1)
+  assert.match(String(warn.mock.calls[0].arguments[0]), /0001_notes changed after it was applied/)
+  assert.deepEqual(
+    (await getMigrationStatus(client, migrationsDir)).map((entry) => [entry.version, entry.checksumMismatch]),
+    [['0001', true]]
+  )
+  assert.deepEqual(await columnNames(client, 'notes'), ['id'])
+})
+
+test('per-source columns written before migrations do not block the later files', async () => {
+  const client = openDatabase('enhanced.db')
+  // The old enhanced collector's history table already had the per-source columns
+  await client.execute(`CREATE TABLE ride_wait_time_history (
+    id TEXT PRIMARY KEY,
+    ride_id TEXT NOT NULL,
+    park_id TEXT,
+    wait_time INTEGER NOT NULL DEFAULT 0,
+    is_open INTEGER NOT NULL DEFAULT 1,
+    status TEXT,
+    source TEXT NOT NULL DEFAULT 'queue_times',
+    queue_times_wait INTEGER,
+    themeparks_wait INTEGER,
+    confidence REAL,
+    recorded_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`)
+
+  const applied = await runTursoMigrations(client)
+
+  assert.deepEqual(applied, loadMigrations().map((migration) => migration.version))
+  assert.deepEqual(await columnNames(client, 'source_weights'), [
+    'park_id',
+    'ride_id',
+    'queue_times_weight',
+    'themeparks_weight',
+    'queue_times_error',
+    'themeparks_error',
+    'samples',
+    'computed_at',
+  ])
+  const columns = await columnNames(client, 'ride_wait_time_history')
+  assert.equal(columns.filter((column) => column === 'confidence').length, 1)
+  assert.ok(columns.includes('local_date'))
+})
@@ -0,0 +1,185 @@
+import { after, before, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  clearSchemaCapabilities,
+  detectSupabaseWaitColumns,
+  getTursoClient,
+  SupabaseProbeClient,
+  toSupabaseWaitTimeRow,
+  writeWaitTimesToTurso,
+} from '../lib/database-clients'
+import { WaitTimeRecord } from '../lib/records'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wait-time-writer-'))
+
+// A history table from before migrations 0004 and 0012: no queue detail or per-source columns
+before(async () => {
+  process.env.TURSO_DATABASE_URL = `file:${path.join(dir, 'history.db')}`
+  await getTursoClient().execute(`
+    CREATE TABLE ride_wait_time_history (
+      id TEXT PRIMARY KEY,
+      ride_id TEXT NOT NULL,
+      park_id TEXT,
+      wait_time INTEGER NOT NULL DEFAULT 0,
+      is_open INTEGER NOT NULL DEFAULT 1,
+      status TEXT,
+      source TEXT NOT NULL DEFAULT 'queue_times',
+      recorded_at TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )`)
+})
+
+after(() => {
+  getTursoClient().close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function dualRecord(id: string): WaitTimeRecord {
+  return {
+    id,
+    item_id: 'meta-space-mountain',
+    park_id: 'loc-magic-kingdom',
+    wait_time: 67,
+    queue_times_wait: 65,
+    themeparks_wait: 70,
+    confidence: 1,
+    is_open: true,
+    status: 'OPERATING',
+    source: 'dual',
+    recorded_at: '2026-10-19T18:30:00.000Z',
+    single_rider_wait: 15,
+  }
+}
+
+test('writeWaitTimesToTurso drops columns an unmigrated table lacks and keeps the row', async () => {
+  const result = await writeWaitTimesToTurso([dualRecord('w1')])
+
+  assert.equal(result.inserted, 1)
+  assert.deepEqual(result.droppedColumns, ['queue_times_wait', 'themeparks_wait', 'confidence', 'single_rider_wait'])
+  const { rows } = await getTursoClient().execute(`SELECT wait_time, source FROM ride_wait_time_history WHERE id = 'w1'`)
+  assert.deepEqual({ ...rows[0] }, { wait_time: 67, source: 'dual' })
+})
+
+test('writeWaitTimesToTurso stores per-source waits and confidence once the columns exist', async () => {
+  for (const column of ['queue_times_wait INTEGER', 'themeparks_wait INTEGER', 'confidence REAL']) {
+    await getTursoClient().execute(`ALTER TABLE ride_wait_time_history ADD COLUMN ${column}`)
+  }
+  clearSchemaCapabilities()
+
+  const result = await writeWaitTimesToTurso([dualRecord('w2')])
+
+  assert.equal(result.inserted, 1)
+  assert.deepEqual(result.droppedColumns, ['single_rider_wait'])
+  const { rows } = await getTursoClient().execute(
+    `SELECT queue_times_wait, themeparks_wait, confidence FROM ride_wait_time_history WHERE id = 'w2'`
+  )
+  assert.deepEqual({ ...rows[0] }, { queue_times_wait: 65, themeparks_wait: 70, confidence: 1 })
+})
+
+test('each chunk commits or rolls back as a whole and the result reports both', async (t) => {
+  const logged = t.mock.method(console, 'error', () => {})
+  t.mock.method(console, 'warn', () => {})
+  // w12 has no ride id, so its whole chunk (w12, w13) fails the NOT NULL constraint
+  const records = ['w10', 'w11', 'w12', 'w13', 'w14'].map((id) =>
+    id === 'w12' ? ({ ...dualRecord(id), item_id: undefined } as unknown as WaitTimeRecord) : dualRecord(id)
+  )
+
+  const { chunks, ...result } = await writeWaitTimesToTurso(records, { chunkSize: 2 })
+
+  assert.deepEqual(result, {
+    inserted: 3,
+    total: 5,
+    failedIds: ['w12', 'w13'],
+    droppedColumns: ['single_rider_wait'],
+  })
+  assert.deepEqual(
+    chunks.map(({ error, ...chunk }) => chunk),
+    [
+      { index: 0, size: 2, ok: true },
+      { index: 1, size: 2, ok: false },
+      { index: 2, size: 1, ok: true },
+    ]
+  )
+  assert.match(chunks[1].error ?? '', /NOT NULL constraint failed: ride_wait_time_history\.ride_id/)
+  assert.equal(logged.mock.callCount(), 1)
+
+  const { rows } = await getTursoClient().execute(
+    `SELECT id FROM ride_wait_time_history WHERE id IN ('w10', 'w11', 'w12', 'w13', 'w14') ORDER BY id`
+  )
+  assert.deepEqual(rows.map((row: any) => row.id), ['w10', 'w11', 'w14'])
+})
+
+test('toSupabaseWaitTimeRow sends only core columns plus the detected groups', () => {
+  const core = toSupabaseWaitTimeRow(dualRecord('w3'), [])
+  assert.deepEqual(Object.keys(core), ['id', 'ride_id', 'wait_time', 'is_open', 'recorded_at'])
+
+  const extended = toSupabaseWaitTimeRow(dualRecord('w3'), ['source', 'aggregation', 'queue_details'])
+  assert.deepEqual(Object.fromEntries(Object.entries(extended).filter(([column]) => !(column in core))), {
+    source: 'dual',
+    queue_times_wait: 65,
+    themeparks_wait: 70,
+    confidence: 1,
+    single_rider_wait: 15,
+  })
+
+  const singleSource = toSupabaseWaitTimeRow(
+    { ...dualRecord('w4'), source: 'queue_times', queue_times_wait: undefined, themeparks_wait: undefined, confidence: undefined },
+    ['source', 'aggregation']
+  )
+  assert.deepEqual(
+    [singleSource.source, singleSource.queue_times_wait, singleSource.themeparks_wait, singleSource.confidence],
+    ['queue_times', null, null, null]
+  )
+  // A table with only the source column still gets it
+  assert.deepEqual(Object.keys(toSupabaseWaitTimeRow(dualRecord('w5'), ['source'])), [...Object.keys(core), 'source'])
+})
+
+test('SUPABASE_QUEUE_DETAILS overrides the queue_details probe either way', async (t) => {
+  t.after(() => {
+    delete process.env.SUPABASE_QUEUE_DETAILS
+    clearSchemaCapabilities()
+  })
+  // Fake client that records probed columns and answers every probe the same way
+  const probed: string[] = []
+  let probeError: { message: string } | null = null
+  const client: SupabaseProbeClient = {
+    from: () => ({
+      select: (columns: string) => ({
+        limit: async () => {
+          probed.push(columns)
+          return { error: probeError }
+        },
+      }),
+    }),
+  }
+
+  process.env.SUPABASE_QUEUE_DETAILS = 'false'
+  clearSchemaCapabilities()
+  assert.deepEqual(await detectSupabaseWaitColumns(client), ['source', 'aggregation'])
+  assert.deepEqual(probed, ['source', 'queue_times_wait,themeparks_wait,confidence'])
+
+  process.env.SUPABASE_QUEUE_DETAILS = 'true'
+  probeError = { message: 'column does not exist' }
+  clearSchemaCapabilities()
+  assert.deepEqual(await detectSupabaseWaitColumns(client), ['queue_details'])
+  assert.equal(probed.length, 4)
+})
+
+test('the source column is probed apart from the per-source waits', async (t) => {
+  t.after(clearSchemaCapabilities)
+  t.mock.method(console, 'log', () => {})
+  // A table that only ever gained the source column
+  const client: SupabaseProbeClient = {
+    from: () => ({
+      select: (columns: string) => ({
+        limit: async () => ({ error: columns === 'source' ? null : { message: 'column does not exist' } }),
+      }),
+    }),
+  }
+
+  clearSchemaCapabilities()
+  assert.deepEqual(await detectSupabaseWaitColumns(client), ['source'])
+})
@@ -0,0 +1,105 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { openMeteo } from '../lib/open-meteo'
+import { checkWeatherForecastRecord } from '../lib/records'
+import { forecastIssueHour, isForecastDue, toForecastRecords } from '../lib/weather-forecast'
+import { MAGIC_KINGDOM, useRecordedFixtures } from './helpers'
+
+useRecordedFixtures()
+
+const RECORDED_AT = '2026-10-19T18:30:00.000Z'
+
+async function recordedForecast() {
+  const weather = await openMeteo.getCurrentWeather(MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon, undefined, 72)
+  assert.ok(weather?.forecast, 'expected an hourly forecast')
+  return weather.forecast
+}
+
+test('getCurrentWeather returns the next 72 hours from the current hour', async () => {
+  const forecast = await recordedForecast()
+
+  assert.equal(forecast.length, 72)
+  assert.deepEqual(forecast[0], { time: '2026-10-19T18:00:00.000Z', temp: 29.8, precip_prob: 55, code: 80 })
+  assert.equal(forecast[71]?.time, '2026-10-22T17:00:00.000Z')
+})
+
+test('getCurrentWeather leaves the forecast out unless asked for', async () => {
+  const weather = await openMeteo.getCurrentWeather(MAGIC_KINGDOM.lat, MAGIC_KINGDOM.lon)
+  assert.equal(weather?.forecast, undefined)
+})
+
+test('toForecastRecords keys rows by issue hour with lead times and local time', async () => {
+  const forecast = await recordedForecast()
+  const records = toForecastRecords(MAGIC_KINGDOM.id, forecast, RECORDED_AT, 'open_meteo', 'America/New_York')
+
+  assert.equal(records.length, 72)
+  assert.deepEqual(records.map((record) => record.lead_hours), Array.from({ length: 72 }, (_, i) => i))
+  assert.deepEqual(records[0], {
+    id: records[0]?.id,
+    location_id: MAGIC_KINGDOM.id,
+    issued_at: '2026-10-19T18:00:00.000Z',
+    forecast_time: '2026-10-19T18:00:00.000Z',
+    lead_hours: 0,
+    temperature: 29.8,
+    precipitation_probability: 55,
+    weather_code: 80,
+    weather_type: 'light_showers',
+    local_date: '2026-10-19',
+    local_hour: 14,
+    source_location_id: null,
+    source: 'open_meteo',
+  })
+  assert.ok(records.every((record) => checkWeatherForecastRecord(record).length === 0))
+})
+
+test('toForecastRecords ids are stable within an issue hour and change across hours', async () => {
+  const forecast = await recordedForecast()
+  const first = toForecastRecords(MAGIC_KINGDOM.id, forecast, RECORDED_AT, 'open_meteo')
+  const sameHour = toForecastRecords(MAGIC_KINGDOM.id, forecast, '2026-10-19T18:55:00.000Z', 'open_meteo')
+  const nextHour = toForecastRecords(MAGIC_KINGDOM.id, forecast, '2026-10-19T19:00:00.000Z', 'open_meteo')
+
+  assert.deepEqual(first.map((record) => record.id), sameHour.map((record) => record.id))
+  // The next issue hour drops the hour already in the past and re-keys the rest
+  assert.equal(nextHour.length, 71)
+  assert.notEqual(nextHour[0]?.id, first[1]?.id)
+  assert.equal(first[0]?.local_date, null)
+})
+
+test('isForecastDue fires once per interval on the aligned tick', () => {
+  assert.equal(forecastIssueHour('2026-10-19T18:42:10.000Z'), '2026-10-19T18:00:00.000Z')
+  assert.equal(isForecastDue('2026-10-19T18:00:00.000Z', 60), true)
+  assert.equal(isForecastDue('2026-10-19T18:03:59.000Z', 60), true)
+  assert.equal(isForecastDue('2026-10-19T18:05:00.000Z', 60), false)
+  assert.equal(isForecastDue('2026-10-19T18:35:00.000Z', 5), true)
+  assert.equal(isForecastDue('2026-10-19T21:00:00.000Z', 180), true)
+  assert.equal(isForecastDue('2026-10-19T19:00:00.000Z', 180), false)
+})
+
+test('isForecastDue rounds an interval that is not a multiple of 5 to whole ticks', () => {
+  // 62 minutes never divides a 5-minute tick evenly; it runs hourly instead
+  assert.equal(isForecastDue('2026-10-19T18:00:00.000Z', 62), true)
+  assert.equal(isForecastDue('2026-10-19T19:02:00.000Z', 62), true)
+  assert.equal(isForecastDue('2026-10-19T18:05:00.000Z', 62), false)
+  // 7 minutes rounds down to every tick, 8 up to every other tick
+  assert.equal(isForecastDue('2026-10-19T18:35:00.000Z', 7), true)
+  assert.equal(isForecastDue('2026-10-19T18:40:00.000Z', 8), true)
+  assert.equal(isForecastDue('2026-10-19T18:45:00.000Z', 8), false)
+})
+
+test('forecast validation rejects negative lead times and bad timestamps', () => {
+  assert.deepEqual(
+    checkWeatherForecastRecord({
+      id: 'f1',
+      location_id: 'loc',
+      issued_at: 'yesterday',
+      forecast_time: '2026-10-19T18:00:00.000Z',
+      lead_hours: -1,
+      temperature: 20,
+      precipitation_probability: null,
+      weather_code: 1,
+      weather_type: 'mostly_clear',
+      source: 'open_meteo',
+    }),
+    ['issued_at must be an ISO timestamp', 'lead_hours must be a non-negative integer']
+  )
+})
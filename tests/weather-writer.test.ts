@@ -0,0 +1,61 @@
+import { after, before, test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { getTursoClient, writeWeatherToTurso } from '../lib/database-clients'
+import { pickWeatherMeasurements, WeatherRecord } from '../lib/records'
+import { runTursoMigrations } from '../lib/turso-migrations'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'weather-writer-'))
+
+before(async () => {
+  process.env.TURSO_DATABASE_URL = `file:${path.join(dir, 'history.db')}`
+  await runTursoMigrations(getTursoClient())
+})
+
+after(() => {
+  getTursoClient().close()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function weatherRecord(id: string, measurements: Parameters<typeof pickWeatherMeasurements>[0]): WeatherRecord {
+  return {
+    id,
+    location_id: 'loc-magic-kingdom',
+    ...pickWeatherMeasurements(measurements),
+    weather_type: 'clear',
+    recorded_at: '2026-10-19T18:30:00.000Z',
+    source: 'open_meteo',
+  }
+}
+
+test('writeWeatherToTurso stores the full field set and keeps zero readings', async () => {
+  const result = await writeWeatherToTurso([
+    weatherRecord('w1', {
+      temperature: 0,
+      cloud_cover: 0,
+      visibility: 0,
+      pressure: 1014.6,
+      wind_direction: 0,
+      wind_gusts: 27.4,
+      precipitation_probability: 0,
+    }),
+  ])
+  assert.equal(result.inserted, 1)
+
+  const { rows } = await getTursoClient().execute(
+    `SELECT temperature, cloud_cover, visibility, pressure, wind_direction, wind_gusts, precipitation_probability, humidity
+     FROM park_weather_history WHERE id = 'w1'`
+  )
+  assert.deepEqual({ ...rows[0] }, {
+    temperature: 0,
+    cloud_cover: 0,
+    visibility: 0,
+    pressure: 1014.6,
+    wind_direction: 0,
+    wind_gusts: 27.4,
+    precipitation_probability: 0,
+    humidity: null,
+  })
+})